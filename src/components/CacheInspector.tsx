@@ -0,0 +1,256 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight, Download, RefreshCw, Search, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { CacheEntry, CacheStats, cacheService, entrySize, formatBytes } from "@/services/cacheService";
+import { parseCacheKey, repoCacheId } from "@/services/hostService";
+import { downloadSnapshot } from "@/services/snapshotService";
+import { createLogger } from "@/services/logger";
+import { repoKeys } from "@/hooks/use-repository-queries";
+import { cn } from "@/lib/utils";
+
+const log = createLogger("cache");
+
+// Large lists would freeze the dialog; the preview says when it was cut
+const PREVIEW_LIMIT = 20000;
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.round(Math.abs(ms) / 60000);
+  if (minutes < 1) return "<1m";
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  return hours < 48 ? `${hours}h` : `${Math.round(hours / 24)}d`;
+};
+
+const describeExpiry = (expiresAt: number | null) => {
+  if (expiresAt === null) return "never expires";
+  const remaining = expiresAt - Date.now();
+  return remaining > 0 ? `expires in ${formatDuration(remaining)}` : `expired ${formatDuration(remaining)} ago`;
+};
+
+// Everything in the key after the repository, e.g. "issues" or "doc:README.md"
+const describeResource = (key: string) => {
+  const { resource, rest } = parseCacheKey(key);
+  return rest ? `${resource}:${rest}` : resource;
+};
+
+const preview = (entry: CacheEntry) => {
+  const json = JSON.stringify(entry.data, null, 2) ?? "undefined";
+  return json.length > PREVIEW_LIMIT
+    ? `${json.slice(0, PREVIEW_LIMIT)}\n… ${formatBytes(json.length - PREVIEW_LIMIT)} more`
+    : json;
+};
+
+interface CacheInspectorProps {
+  onChanged?: () => void; // After entries were deleted
+  compress?: boolean; // Gzip exported snapshots
+}
+
+export const CacheInspector = ({ onChanged, compress = false }: CacheInspectorProps) => {
+  const queryClient = useQueryClient();
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<CacheEntry | null>(null);
+
+  const loadStats = async () => {
+    const next = await cacheService.getStats();
+    setStats(next);
+    setSelected((current) => current && (next.entries.find((entry) => entry.key === current.key) ?? null));
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      loadStats();
+    } else {
+      setSelected(null);
+    }
+  };
+
+  const toggle = (id: string) =>
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+
+  const handleDeleteEntry = async (key: string) => {
+    await cacheService.delete(key);
+    await loadStats();
+    onChanged?.();
+  };
+
+  const handleDeleteRepo = async (host: string, repo: string) => {
+    const count = await cacheService.deleteRepo(host, repo);
+    toast.success(`Deleted ${count} cached entries for ${repo || host}`);
+    await loadStats();
+    onChanged?.();
+  };
+
+  const handleExportRepo = async (host: string, repo: string) => {
+    const keys = entriesOf(host, repo).map((entry) => entry.key);
+    try {
+      await downloadSnapshot({ keys, gzip: compress }, (repo || host).replace(/[^\w.-]+/g, "-"));
+      toast.success(`Exported ${keys.length} cached entries for ${repo || host}`);
+    } catch (error) {
+      log.error("Error exporting cache", error);
+      toast.error("Failed to export the cache");
+    }
+  };
+
+  // Dashboard queries read through the cache, so refetching them picks up the expired entry
+  const handleRefresh = async (key: string) => {
+    await cacheService.expire(key);
+    await queryClient.invalidateQueries({ queryKey: repoKeys.root });
+    toast.success(`${describeResource(key)} will be fetched again`);
+    await loadStats();
+  };
+
+  const entriesOf = (host: string, repo: string) =>
+    (stats?.entries ?? [])
+      .filter((entry) => {
+        const parsed = parseCacheKey(entry.key);
+        return parsed.host === host && parsed.repo === repo;
+      })
+      .sort((a, b) => a.key.localeCompare(b.key));
+
+  return (
+    <Dialog onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2">
+          <Search className="h-4 w-4" />
+          Inspect
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Cache Inspector</DialogTitle>
+          <DialogDescription>
+            {stats
+              ? `${stats.count} entries, ${formatBytes(stats.size)} of ${formatBytes(stats.quota)}. Select an entry to preview its data.`
+              : "Loading cached entries…"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <ScrollArea className="h-[60vh] border border-border rounded-md">
+            <div className="p-2 space-y-1">
+              {stats?.repos.length === 0 && (
+                <div className="text-sm text-muted-foreground p-2">The cache is empty.</div>
+              )}
+              {stats?.repos.map(({ host, repo, count, size }) => {
+                const id = repoCacheId(host, repo);
+                const isExpanded = expanded.has(id);
+                return (
+                  <div key={id}>
+                    <div className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        className="flex-1 flex items-center gap-1 text-left text-sm font-medium py-1 min-w-0"
+                        onClick={() => toggle(id)}
+                      >
+                        {isExpanded ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+                        <span className="truncate">{repo || host}</span>
+                        <span className="text-xs text-muted-foreground font-normal truncate">{host}</span>
+                      </button>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {count} · {formatBytes(size)}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => handleExportRepo(host, repo)}
+                        aria-label={`Export cached data for ${repo || host}`}
+                      >
+                        <Download className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => handleDeleteRepo(host, repo)}
+                        aria-label={`Delete cached data for ${repo || host}`}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                    {isExpanded && entriesOf(host, repo).map((entry) => (
+                      <div
+                        key={entry.key}
+                        className={cn(
+                          "flex items-center gap-2 pl-6 rounded-sm",
+                          selected?.key === entry.key && "bg-muted"
+                        )}
+                      >
+                        <button
+                          type="button"
+                          className="flex-1 text-left py-1 min-w-0"
+                          onClick={() => setSelected(entry)}
+                        >
+                          <div className="text-sm truncate">{describeResource(entry.key)}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {formatBytes(entrySize(entry))} · cached {formatDuration(Date.now() - entry.timestamp)} ago ·{" "}
+                            {describeExpiry(cacheService.getExpiresAt(entry))}
+                          </div>
+                        </button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => handleRefresh(entry.key)}
+                          aria-label={`Refresh ${entry.key}`}
+                        >
+                          <RefreshCw className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => handleDeleteEntry(entry.key)}
+                          aria-label={`Delete ${entry.key}`}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+
+          <ScrollArea className="h-[60vh] border border-border rounded-md">
+            {selected ? (
+              <div className="p-3 space-y-2">
+                <div className="text-xs font-mono break-all">{selected.key}</div>
+                <div className="text-xs text-muted-foreground space-x-3">
+                  <span>Cached {new Date(selected.timestamp).toLocaleString()}</span>
+                  {selected.importedAt && <span>Imported {new Date(selected.importedAt).toLocaleString()}</span>}
+                  {selected.etag && <span>ETag {selected.etag}</span>}
+                  {selected.lastModified && <span>Last-Modified {selected.lastModified}</span>}
+                </div>
+                <pre className="text-xs whitespace-pre-wrap break-all">{preview(selected)}</pre>
+              </div>
+            ) : (
+              <div className="p-3 text-sm text-muted-foreground">No entry selected.</div>
+            )}
+          </ScrollArea>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
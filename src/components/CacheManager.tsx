@@ -1,5 +1,7 @@
+import { ChangeEvent, useRef, useState } from "react";
+import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
-import { Database, Trash2 } from "lucide-react";
+import { Database, Download, RotateCcw, Trash2, Upload } from "lucide-react";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -11,44 +13,298 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { cacheService } from "@/services/cacheService";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { CacheInspector } from "@/components/CacheInspector";
+import { CacheStats, CacheTtl, cacheService, formatBytes } from "@/services/cacheService";
+import { downloadSnapshot, importSnapshot } from "@/services/snapshotService";
+import { createLogger } from "@/services/logger";
+
+const log = createLogger("cache");
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Select values are strings, so "never" stands in for a null TTL
+const NEVER = "never";
+
+const TTL_OPTIONS: { label: string; ttl: CacheTtl }[] = [
+  { label: "5 minutes", ttl: 5 * MINUTE },
+  { label: "15 minutes", ttl: 15 * MINUTE },
+  { label: "1 hour", ttl: HOUR },
+  { label: "6 hours", ttl: 6 * HOUR },
+  { label: "1 day", ttl: DAY },
+  { label: "1 week", ttl: 7 * DAY },
+  { label: "Never expire", ttl: null },
+];
+
+const RESOURCE_LABELS: Record<string, string> = {
+  repo: "Repository details",
+  issues: "Issues",
+  pulls: "Pull requests",
+  releases: "Releases",
+  doc: "Documentation files",
+  "commit-activity": "Commit activity",
+  "": "Everything else",
+};
+
+const toValue = (ttl: CacheTtl) => (ttl === null ? NEVER : String(ttl));
+const fromValue = (value: string): CacheTtl => (value === NEVER ? null : Number(value));
+
+// Label for a TTL that may have been configured outside the preset list
+const describeTtl = (ttl: CacheTtl) => {
+  const option = TTL_OPTIONS.find((candidate) => candidate.ttl === ttl);
+  if (option) return option.label;
+  return ttl >= HOUR ? `${Math.round(ttl / HOUR)} hours` : `${Math.round(ttl / MINUTE)} minutes`;
+};
+
+const MB = 1024 * 1024;
+const QUOTA_OPTIONS = [10 * MB, 25 * MB, 50 * MB, 100 * MB, 250 * MB];
+
+// Repositories listed under storage; the rest are only counted
+const TOP_REPOS = 5;
+
+// Everything else last, since it only applies where no other resource matches
+const sortPolicies = (policies: Record<string, CacheTtl>) =>
+  Object.entries(policies).sort(([a], [b]) => (a === "" ? 1 : b === "" ? -1 : 0));
 
 interface CacheManagerProps {
   onCacheCleared?: () => void;
 }
 
 export const CacheManager = ({ onCacheCleared }: CacheManagerProps) => {
+  const [policies, setPolicies] = useState(cacheService.getTtlPolicies());
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [compress, setCompress] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const loadStats = async () => setStats(await cacheService.getStats());
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      loadStats();
+    }
+  };
+
   const handleClearCache = async () => {
     await cacheService.clearAll();
+    await loadStats();
     if (onCacheCleared) {
       onCacheCleared();
     }
   };
 
+  const handleQuotaChange = async (value: string) => {
+    await cacheService.setQuota(Number(value));
+    await loadStats();
+  };
+
+  const handleExport = async () => {
+    try {
+      const count = await downloadSnapshot({ gzip: compress });
+      toast.success(`Exported ${count} cached entries`);
+    } catch (error) {
+      log.error("Error exporting cache", error);
+      toast.error("Failed to export the cache");
+    }
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Allow picking the same file again
+    if (!file) return;
+
+    try {
+      const count = await importSnapshot(file);
+      toast.success(`Imported ${count} entries from ${file.name}`);
+      await loadStats();
+      if (onCacheCleared) {
+        onCacheCleared();
+      }
+    } catch (error) {
+      log.error("Error importing snapshot", error);
+      toast.error(error instanceof Error ? error.message : "Failed to import the snapshot");
+    }
+  };
+
+  const handlePolicyChange = (resource: string, value: string) => {
+    cacheService.setTtlPolicy(resource, fromValue(value));
+    setPolicies(cacheService.getTtlPolicies());
+  };
+
+  const handleResetPolicies = () => {
+    cacheService.resetTtlPolicies();
+    setPolicies(cacheService.getTtlPolicies());
+  };
+
   return (
-    <AlertDialog>
-      <AlertDialogTrigger asChild>
+    <Dialog onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
         <Button variant="outline" size="sm" className="gap-2">
           <Database className="h-4 w-4" />
-          Clear Cache
+          Cache
         </Button>
-      </AlertDialogTrigger>
-      <AlertDialogContent>
-        <AlertDialogHeader>
-          <AlertDialogTitle>Clear Cache?</AlertDialogTitle>
-          <AlertDialogDescription>
-            This will clear all cached repository data. You'll need to fetch fresh data from GitHub.
-            Cache automatically expires after 15 minutes anyway.
-          </AlertDialogDescription>
-        </AlertDialogHeader>
-        <AlertDialogFooter>
-          <AlertDialogCancel>Cancel</AlertDialogCancel>
-          <AlertDialogAction onClick={handleClearCache} className="gap-2">
-            <Trash2 className="h-4 w-4" />
-            Clear Cache
-          </AlertDialogAction>
-        </AlertDialogFooter>
-      </AlertDialogContent>
-    </AlertDialog>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Cache</DialogTitle>
+          <DialogDescription>
+            How long each kind of cached data stays fresh. Expired data is revalidated with the forge, and
+            still shown while you're offline.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {sortPolicies(policies).map(([resource, ttl]) => (
+            <div key={resource} className="flex items-center justify-between gap-3">
+              <div>
+                <div className="text-sm font-medium">{RESOURCE_LABELS[resource] || resource}</div>
+                {resource && <code className="text-xs text-muted-foreground">{resource}</code>}
+              </div>
+              <Select value={toValue(ttl)} onValueChange={(value) => handlePolicyChange(resource, value)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {!TTL_OPTIONS.some((option) => option.ttl === ttl) && (
+                    <SelectItem value={toValue(ttl)}>{describeTtl(ttl)}</SelectItem>
+                  )}
+                  {TTL_OPTIONS.map((option) => (
+                    <SelectItem key={toValue(option.ttl)} value={toValue(option.ttl)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+
+        {stats && (
+          <div className="space-y-3 border-t border-border pt-4">
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <div className="text-sm font-medium">Storage</div>
+                <div className="text-xs text-muted-foreground">
+                  {formatBytes(stats.size)} in {stats.count} entries; least recently used data is evicted past the limit
+                </div>
+              </div>
+              <Select value={String(stats.quota)} onValueChange={handleQuotaChange}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {!QUOTA_OPTIONS.includes(stats.quota) && (
+                    <SelectItem value={String(stats.quota)}>{formatBytes(stats.quota)}</SelectItem>
+                  )}
+                  {QUOTA_OPTIONS.map((quota) => (
+                    <SelectItem key={quota} value={String(quota)}>
+                      {formatBytes(quota)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Progress value={Math.min((stats.size / stats.quota) * 100, 100)} className="h-2" />
+            {stats.repos.length > 0 && (
+              <div className="space-y-1 text-sm">
+                {stats.repos.slice(0, TOP_REPOS).map((usage) => (
+                  <div key={`${usage.host}:${usage.repo}`} className="flex items-center justify-between gap-3">
+                    <span className="truncate">
+                      {usage.repo || usage.host}
+                      <span className="text-xs text-muted-foreground ml-2">{usage.host}</span>
+                    </span>
+                    <span className="text-muted-foreground whitespace-nowrap">
+                      {formatBytes(usage.size)} · {usage.count} entries
+                    </span>
+                  </div>
+                ))}
+                {stats.repos.length > TOP_REPOS && (
+                  <div className="text-xs text-muted-foreground">
+                    and {stats.repos.length - TOP_REPOS} more repositories
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-3 border-t border-border pt-4">
+          <div>
+            <div className="text-sm font-medium">Snapshots</div>
+            <div className="text-xs text-muted-foreground">
+              Save cached data to a file to share it or use it offline. Imported data keeps its original dates.
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" className="gap-2" onClick={handleExport}>
+              <Download className="h-4 w-4" />
+              Export all
+            </Button>
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => fileInput.current?.click()}>
+              <Upload className="h-4 w-4" />
+              Import
+            </Button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".json,.gz,application/json,application/gzip"
+              className="hidden"
+              onChange={handleImport}
+            />
+            <div className="flex items-center gap-2 ml-auto">
+              <Switch id="snapshot-gzip" checked={compress} onCheckedChange={setCompress} />
+              <Label htmlFor="snapshot-gzip" className="text-sm">Compress (gzip)</Label>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" className="gap-2" onClick={handleResetPolicies}>
+              <RotateCcw className="h-4 w-4" />
+              Reset to defaults
+            </Button>
+            <CacheInspector onChanged={loadStats} compress={compress} />
+          </div>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" size="sm" className="gap-2">
+                <Trash2 className="h-4 w-4" />
+                Clear Cache
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Clear Cache?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  This will clear all cached repository data. You'll need to fetch fresh data from the forge,
+                  and nothing will be available offline until it is cached again.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleClearCache} className="gap-2">
+                  <Trash2 className="h-4 w-4" />
+                  Clear Cache
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
   );
-};
\ No newline at end of file
+};
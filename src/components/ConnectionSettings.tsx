@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { Check, Plus, Server, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { GITHUB_DOT_COM, GitHubHost, hostService } from "@/services/hostService";
+
+interface ConnectionSettingsProps {
+  onConnectionChanged?: () => void;
+}
+
+export const ConnectionSettings = ({ onConnectionChanged }: ConnectionSettingsProps) => {
+  const [activeHost, setActiveHost] = useState<GitHubHost>(hostService.getActiveHost());
+  const [hosts, setHosts] = useState<GitHubHost[]>(hostService.getHosts());
+  const [urlInput, setUrlInput] = useState("");
+  const [nameInput, setNameInput] = useState("");
+
+  useEffect(() => {
+    return hostService.subscribe((host) => {
+      setActiveHost(host);
+      setHosts(hostService.getHosts());
+    });
+  }, []);
+
+  const selectHost = (id: string) => {
+    if (id === activeHost.id) return;
+    hostService.setActiveHost(id);
+    if (onConnectionChanged) {
+      onConnectionChanged();
+    }
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const host = hostService.addHost(urlInput, nameInput);
+      setHosts(hostService.getHosts());
+      setUrlInput("");
+      setNameInput("");
+      toast.success(`Saved connection to ${host.name}`);
+    } catch {
+      toast.error("Please enter a valid URL, e.g. https://github.example.com");
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    const wasActive = id === activeHost.id;
+    hostService.removeHost(id);
+    setHosts(hostService.getHosts());
+    if (wasActive && onConnectionChanged) {
+      onConnectionChanged();
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Server className="h-4 w-4" />
+          {activeHost.name}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Connections</DialogTitle>
+          <DialogDescription>
+            Analyze repositories on GitHub.com or a GitHub Enterprise Server instance. Tokens and
+            cached data are kept separately for each connection.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {hosts.map((host) => (
+            <div key={host.id} className="flex items-center gap-3 border-b border-border pb-2 last:border-b-0">
+              <button
+                type="button"
+                className="flex-1 flex items-center gap-2 text-left"
+                onClick={() => selectHost(host.id)}
+              >
+                <Check className={host.id === activeHost.id ? "h-4 w-4 text-primary" : "h-4 w-4 invisible"} />
+                <div>
+                  <div className="font-medium">{host.name}</div>
+                  <div className="text-xs text-muted-foreground">{host.apiBaseUrl}</div>
+                </div>
+              </button>
+              {host.id !== GITHUB_DOT_COM.id && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRemove(host.id)}
+                  aria-label={`Remove ${host.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleAdd} className="space-y-3 border-t border-border pt-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="host-url">GitHub Enterprise Server URL</Label>
+            <Input
+              id="host-url"
+              placeholder="https://github.example.com"
+              value={urlInput}
+              onChange={(e) => setUrlInput(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="host-name">Name (optional)</Label>
+            <Input
+              id="host-name"
+              placeholder="Defaults to the host name"
+              value={nameInput}
+              onChange={(e) => setNameInput(e.target.value)}
+            />
+          </div>
+          <Button type="submit" size="sm" className="gap-2" disabled={!urlInput.trim()}>
+            <Plus className="h-4 w-4" />
+            Save connection
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
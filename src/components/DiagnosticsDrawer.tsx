@@ -0,0 +1,264 @@
+import { useEffect, useState } from "react";
+import { Activity, ChevronDown, ChevronRight, Copy, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { LogLevel, LogRecord, logger } from "@/services/logger";
+import { CacheOutcome, RequestRecord, requestLog } from "@/services/requestLog";
+import { cn } from "@/lib/utils";
+
+// Select values for the request filter besides the cache outcomes
+const ALL = "all";
+const ERRORS = "errors";
+
+const CACHE_OUTCOMES: CacheOutcome[] = ["hit", "miss", "revalidated", "stale"];
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+const CACHE_BADGES: Record<CacheOutcome, "default" | "secondary" | "outline"> = {
+  hit: "secondary",
+  miss: "outline",
+  revalidated: "secondary",
+  stale: "default",
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+
+// GitHub, GitLab and Gitea all send a remaining count under one of these names
+const remainingOf = (rateLimit: Record<string, string> | null) =>
+  rateLimit?.["x-ratelimit-remaining"] ?? rateLimit?.["ratelimit-remaining"] ?? null;
+
+const matchesText = (text: string, ...fields: (string | null)[]) => {
+  const query = text.trim().toLowerCase();
+  return !query || fields.some((field) => field?.toLowerCase().includes(query));
+};
+
+const filterRequests = (records: RequestRecord[], text: string, outcome: string) =>
+  records.filter(
+    (record) =>
+      (outcome === ALL || (outcome === ERRORS ? record.error !== null : record.cache === outcome)) &&
+      matchesText(text, record.url, record.cacheKey, record.error)
+  );
+
+const filterLogs = (records: LogRecord[], text: string, level: string) =>
+  records.filter(
+    (record) => (level === ALL || record.level === level) && matchesText(text, record.scope, record.message)
+  );
+
+const copyJson = async (records: unknown[], label: string) => {
+  try {
+    await navigator.clipboard.writeText(JSON.stringify(records, null, 2));
+    toast.success(`Copied ${records.length} ${label} as JSON`);
+  } catch {
+    toast.error("Couldn't copy to the clipboard");
+  }
+};
+
+// Only expanded rows render their details, so large payloads don't slow down the list
+const Details = ({ value }: { value: unknown }) => (
+  <pre className="text-xs whitespace-pre-wrap break-all bg-muted rounded-sm p-2 mt-1">
+    {JSON.stringify(value, null, 2)}
+  </pre>
+);
+
+const RequestRow = ({ record }: { record: RequestRecord }) => {
+  const [open, setOpen] = useState(false);
+  const remaining = remainingOf(record.rateLimit);
+
+  return (
+    <div className="border-b border-border py-1.5">
+      <button type="button" className="w-full text-left" onClick={() => setOpen(!open)}>
+        <div className="flex items-center gap-2 text-xs">
+          {open ? <ChevronDown className="h-3.5 w-3.5 shrink-0" /> : <ChevronRight className="h-3.5 w-3.5 shrink-0" />}
+          <span className="text-muted-foreground tabular-nums">{formatTime(record.startedAt)}</span>
+          <span className="font-medium">{record.method}</span>
+          <Badge variant={CACHE_BADGES[record.cache]} className="px-1.5 py-0 text-[10px]">
+            {record.cache}
+          </Badge>
+          <span className={cn("tabular-nums", (record.error || (record.status ?? 0) >= 400) && "text-destructive")}>
+            {record.status ?? "—"}
+          </span>
+          <span className="ml-auto text-muted-foreground tabular-nums whitespace-nowrap">
+            {record.duration} ms
+            {record.attempts > 1 && ` · ${record.attempts} attempts`}
+            {remaining !== null && ` · ${remaining} left`}
+          </span>
+        </div>
+        <div className="pl-5 text-xs font-mono truncate">{record.url}</div>
+        {record.error && <div className="pl-5 text-xs text-destructive truncate">{record.error}</div>}
+      </button>
+      {open && <Details value={record} />}
+    </div>
+  );
+};
+
+const LogRow = ({ record }: { record: LogRecord }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="border-b border-border py-1.5">
+      <button
+        type="button"
+        className="w-full text-left flex items-center gap-2 text-xs"
+        onClick={() => setOpen(!open)}
+        disabled={record.data === undefined}
+      >
+        <span className="text-muted-foreground tabular-nums">{formatTime(record.time)}</span>
+        <span
+          className={cn(
+            "uppercase w-10",
+            record.level === "error" && "text-destructive",
+            record.level === "warn" && "text-yellow-600"
+          )}
+        >
+          {record.level}
+        </span>
+        <span className="text-muted-foreground">{record.scope}</span>
+        <span className="truncate">{record.message}</span>
+      </button>
+      {open && <Details value={record.data} />}
+    </div>
+  );
+};
+
+export const DiagnosticsDrawer = () => {
+  const [requests, setRequests] = useState<RequestRecord[]>(requestLog.getRecords());
+  const [logs, setLogs] = useState<LogRecord[]>(logger.getRecords());
+  const [debug, setDebug] = useState(logger.isDebugEnabled());
+  const [tab, setTab] = useState("requests");
+  const [text, setText] = useState("");
+  const [outcome, setOutcome] = useState(ALL);
+  const [level, setLevel] = useState(ALL);
+
+  useEffect(() => requestLog.subscribe(setRequests), []);
+  useEffect(() => logger.subscribe(setLogs), []);
+
+  const handleDebugChange = (enabled: boolean) => {
+    logger.setDebugEnabled(enabled);
+    setDebug(enabled);
+  };
+
+  // Newest first
+  const shownRequests = filterRequests(requests, text, outcome).reverse();
+  const shownLogs = filterLogs(logs, text, level).reverse();
+
+  const handleCopy = () =>
+    tab === "requests" ? copyJson(shownRequests, "requests") : copyJson(shownLogs, "log records");
+
+  const handleClear = () => (tab === "requests" ? requestLog.clear() : logger.clear());
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Activity className="h-4 w-4" />
+          Diagnostics
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="right" className="w-full sm:max-w-2xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Diagnostics</SheetTitle>
+          <SheetDescription>
+            Every API request with its cache outcome, status, latency, retries and rate-limit headers. Copy the
+            log as JSON to attach it to a bug report.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex items-center gap-2">
+          <Switch id="debug-logging" checked={debug} onCheckedChange={handleDebugChange} />
+          <Label htmlFor="debug-logging" className="text-sm">Debug logging</Label>
+          <span className="text-xs text-muted-foreground">Also logs every cache read and write</span>
+        </div>
+
+        <Tabs value={tab} onValueChange={setTab} className="flex-1 flex flex-col min-h-0">
+          <TabsList className="self-start">
+            <TabsTrigger value="requests">Requests ({requests.length})</TabsTrigger>
+            <TabsTrigger value="log">Log ({logs.length})</TabsTrigger>
+          </TabsList>
+
+          <div className="flex items-center gap-2 mt-3">
+            <Input
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={tab === "requests" ? "Filter by URL, cache key or error" : "Filter by scope or message"}
+              className="h-8"
+            />
+            {tab === "requests" ? (
+              <Select value={outcome} onValueChange={setOutcome}>
+                <SelectTrigger className="w-36 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All requests</SelectItem>
+                  <SelectItem value={ERRORS}>Errors</SelectItem>
+                  {CACHE_OUTCOMES.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      Cache {value}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Select value={level} onValueChange={setLevel}>
+                <SelectTrigger className="w-36 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All levels</SelectItem>
+                  {LOG_LEVELS.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {value}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button variant="outline" size="sm" className="gap-2" onClick={handleCopy}>
+              <Copy className="h-4 w-4" />
+              Copy JSON
+            </Button>
+            <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={handleClear} aria-label="Clear">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <TabsContent value="requests" className="flex-1 min-h-0">
+            <ScrollArea className="h-full">
+              {shownRequests.length === 0 && (
+                <div className="text-sm text-muted-foreground p-2">No requests recorded.</div>
+              )}
+              {shownRequests.map((record) => (
+                <RequestRow key={record.id} record={record} />
+              ))}
+            </ScrollArea>
+          </TabsContent>
+          <TabsContent value="log" className="flex-1 min-h-0">
+            <ScrollArea className="h-full">
+              {shownLogs.length === 0 && (
+                <div className="text-sm text-muted-foreground p-2">
+                  Nothing logged.{!debug && " Turn on debug logging to see cache activity."}
+                </div>
+              )}
+              {shownLogs.map((record) => (
+                <LogRow key={record.id} record={record} />
+              ))}
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+      </SheetContent>
+    </Sheet>
+  );
+};
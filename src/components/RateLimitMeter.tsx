@@ -0,0 +1,51 @@
+import { useEffect, useState } from "react";
+import { Gauge } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import { RateLimitBudget, rateLimitService } from "@/services/rateLimitService";
+
+interface RateLimitMeterProps {
+  resource?: string;
+}
+
+export const RateLimitMeter = ({ resource = "core" }: RateLimitMeterProps) => {
+  const [budget, setBudget] = useState<RateLimitBudget | null>(rateLimitService.getBudget(resource));
+
+  useEffect(() => {
+    return rateLimitService.subscribe((budgets) => setBudget(budgets[resource] || null));
+  }, [resource]);
+
+  if (!budget) {
+    return null;
+  }
+
+  const percent = budget.limit > 0 ? (budget.remaining / budget.limit) * 100 : 0;
+  const resetTime = new Date(budget.reset).toLocaleTimeString();
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Gauge className={cn("h-4 w-4", percent < 10 && "text-destructive")} />
+          <div className="w-20">
+            <Progress value={percent} className="h-1.5" />
+          </div>
+          <span className="tabular-nums">
+            {Math.max(budget.remaining, 0).toLocaleString()}/{budget.limit.toLocaleString()}
+          </span>
+        </div>
+      </TooltipTrigger>
+      <TooltipContent>
+        {budget.deferredUntil ? (
+          <p>Rate limit reached. Requests are paused until {resetTime}.</p>
+        ) : (
+          <p>
+            {Math.max(budget.remaining, 0).toLocaleString()} of {budget.limit.toLocaleString()} GitHub API
+            requests left. Resets at {resetTime}.
+          </p>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+};
@@ -0,0 +1,231 @@
+import { useEffect, useState } from "react";
+import { KeyRound, Loader2, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { StoredToken, tokenService } from "@/services/tokenService";
+import { ForgeToken, forgeTokenService } from "@/services/forgeTokenService";
+import { FORGE_HOSTS, ForgeHost } from "@/services/providers";
+
+const maskToken = (token: string) => `${token.slice(0, 4)}…${token.slice(-4)}`;
+
+interface ForgeTokenRowProps {
+  forge: ForgeHost;
+  saved: ForgeToken | undefined;
+}
+
+// One token per forge host, saved as typed since forges have no common way to validate it
+const ForgeTokenRow = ({ forge, saved }: ForgeTokenRowProps) => {
+  const [tokenInput, setTokenInput] = useState("");
+  const inputId = `forge-token-${forge.host}`;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tokenInput.trim()) {
+      toast.error("Please enter an access token");
+      return;
+    }
+
+    try {
+      await forgeTokenService.set(forge.host, tokenInput);
+      toast.success(`Saved token for ${forge.host}`);
+      setTokenInput("");
+    } catch (error) {
+      toast.error(error.message);
+    }
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <Label htmlFor={inputId}>
+        {forge.name} <span className="font-normal text-muted-foreground">{forge.host}</span>
+      </Label>
+      {saved ? (
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-xs text-muted-foreground font-mono">{maskToken(saved.token)}</span>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => forgeTokenService.remove(forge.host)}
+            aria-label={`Remove the token for ${forge.host}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        <form onSubmit={handleSave} className="flex gap-2">
+          <Input
+            id={inputId}
+            type="password"
+            autoComplete="off"
+            placeholder={forge.hint}
+            value={tokenInput}
+            onChange={(e) => setTokenInput(e.target.value)}
+          />
+          <Button type="submit" variant="outline" size="sm" className="gap-2">
+            <Plus className="h-4 w-4" />
+            Save
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export const TokenSettings = () => {
+  const [tokens, setTokens] = useState<StoredToken[]>(tokenService.list());
+  const [forgeTokens, setForgeTokens] = useState<ForgeToken[]>(forgeTokenService.list());
+  const [tokenInput, setTokenInput] = useState("");
+  const [labelInput, setLabelInput] = useState("");
+  const [isValidating, setIsValidating] = useState(false);
+
+  useEffect(() => {
+    tokenService.load();
+    forgeTokenService.load();
+    const unsubscribeForges = forgeTokenService.subscribe(setForgeTokens);
+    const unsubscribe = tokenService.subscribe(setTokens);
+    return () => {
+      unsubscribeForges();
+      unsubscribe();
+    };
+  }, []);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tokenInput.trim()) {
+      toast.error("Please enter a personal access token");
+      return;
+    }
+
+    setIsValidating(true);
+    try {
+      const stored = await tokenService.add(tokenInput, labelInput);
+      toast.success(`Added token for ${stored.login}`);
+      setTokenInput("");
+      setLabelInput("");
+    } catch (error) {
+      toast.error(error.message);
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <KeyRound className="h-4 w-4" />
+          Tokens
+          {tokens.length > 0 && <Badge variant="secondary">{tokens.length}</Badge>}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>GitHub Tokens</DialogTitle>
+          <DialogDescription>
+            Personal access tokens raise the API limit from 60 to 5,000 requests per hour. They are
+            stored in this browser only. When one runs out of quota, the next one is used.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {tokens.length === 0 ? (
+            <div className="text-center py-4 text-sm text-muted-foreground">
+              No tokens added yet
+            </div>
+          ) : (
+            tokens.map((token) => (
+              <div key={token.id} className="flex items-start gap-3 border-b border-border pb-3 last:border-b-0">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{token.label}</span>
+                    <span className="text-xs text-muted-foreground font-mono">{maskToken(token.token)}</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground mb-1">
+                    Authenticated as {token.login}
+                    {token.exhaustedUntil && token.exhaustedUntil > Date.now() && (
+                      <> · out of quota until {new Date(token.exhaustedUntil).toLocaleTimeString()}</>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {token.scopes === null ? (
+                      <Badge variant="outline" className="text-xs">fine-grained</Badge>
+                    ) : token.scopes.length === 0 ? (
+                      <Badge variant="outline" className="text-xs">no scopes (public data only)</Badge>
+                    ) : (
+                      token.scopes.map((scope) => (
+                        <Badge key={scope} variant="outline" className="text-xs">{scope}</Badge>
+                      ))
+                    )}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => tokenService.remove(token.id)}
+                  aria-label={`Remove ${token.label}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <form onSubmit={handleAdd} className="space-y-3 border-t border-border pt-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="token-value">Personal access token</Label>
+            <Input
+              id="token-value"
+              type="password"
+              autoComplete="off"
+              placeholder="ghp_…"
+              value={tokenInput}
+              onChange={(e) => setTokenInput(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="token-label">Label (optional)</Label>
+            <Input
+              id="token-label"
+              placeholder="Defaults to the GitHub login"
+              value={labelInput}
+              onChange={(e) => setLabelInput(e.target.value)}
+            />
+          </div>
+          <Button type="submit" size="sm" className="gap-2" disabled={isValidating}>
+            {isValidating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            Validate and add
+          </Button>
+        </form>
+
+        <div className="space-y-3 border-t border-border pt-4">
+          <div>
+            <div className="text-sm font-medium">Other forges</div>
+            <p className="text-xs text-muted-foreground">
+              Tokens for private repositories and higher limits on GitLab, Gitea and Bitbucket. Each one is
+              stored in this browser and only sent to its own host.
+            </p>
+          </div>
+          {FORGE_HOSTS.map((forge) => (
+            <ForgeTokenRow
+              key={forge.host}
+              forge={forge}
+              saved={forgeTokens.find((stored) => stored.host === forge.host)}
+            />
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
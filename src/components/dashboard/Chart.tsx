@@ -4,7 +4,10 @@ import { useEffect, useMemo, useState } from "react";
 import { ResponsiveContainer, LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, PieChart, Pie, Cell } from "recharts";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { BarChart2, LineChart as LineChartIcon, PieChart as PieChartIcon } from "lucide-react";
+import { Ban, BarChart2, LineChart as LineChartIcon, Loader2, PieChart as PieChartIcon } from "lucide-react";
+import { ApiError } from "@/services/apiErrors";
+import WidgetError from "./WidgetError";
+import StaleBadge from "./StaleBadge";
 
 // Define color palettes for different chart types
 const COLOR_PALETTES = {
@@ -23,6 +26,11 @@ interface ChartProps {
   xKey?: string;
   yKeys?: { key: string; name: string; color?: string }[];
   isLoading?: boolean;
+  pendingMessage?: string; // Shown instead of the chart while data is being prepared upstream
+  unsupportedMessage?: string; // Shown instead of the chart when the data source can't provide it
+  error?: ApiError | null; // Shown instead of the chart when loading its data failed
+  onRetry?: () => void;
+  asOf?: number | null; // Set when the data comes from an expired cache entry
   className?: string;
   colorPalette?: keyof typeof COLOR_PALETTES;
 }
@@ -35,6 +43,11 @@ export const Chart = ({
   xKey = "name",
   yKeys = [{ key: "value", name: "Value" }],
   isLoading,
+  pendingMessage,
+  unsupportedMessage,
+  error,
+  onRetry,
+  asOf,
   className,
   colorPalette = "default",
 }: ChartProps) => {
@@ -90,6 +103,28 @@ export const Chart = ({
   };
 
   const renderChart = () => {
+    if (unsupportedMessage) {
+      return (
+        <div className="w-full h-64 flex flex-col items-center justify-center gap-2 text-sm text-muted-foreground">
+          <Ban className="h-5 w-5" />
+          {unsupportedMessage}
+        </div>
+      );
+    }
+
+    if (error) {
+      return <WidgetError error={error} onRetry={onRetry} className="h-64" />;
+    }
+
+    if (pendingMessage) {
+      return (
+        <div className="w-full h-64 flex flex-col items-center justify-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          {pendingMessage}
+        </div>
+      );
+    }
+
     if (isLoading) {
       return <div className="w-full h-64 skeleton"></div>;
     }
@@ -177,6 +212,7 @@ export const Chart = ({
         <div>
           <CardTitle className="text-sm font-medium">{title}</CardTitle>
           {description && <CardDescription>{description}</CardDescription>}
+          {asOf && !isLoading && !error && <StaleBadge asOf={asOf} className="mt-1" />}
         </div>
         {type === "multi" && (
           <div className="flex space-x-1">
@@ -1,30 +1,25 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useLocation, useSearchParams } from "react-router-dom";
+import { UseQueryResult, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
+import { formatDuration, formatDate } from "@/services/githubService";
+import { buildTrend, MetricName, TrendPeriod } from "@/services/metricHistoryService";
+import { isMerged } from "@/services/analytics";
+import { ApiError, toApiError } from "@/services/apiErrors";
+import { resolveRepository } from "@/services/providers";
+import { cacheService } from "@/services/cacheService";
 import {
-  Repository,
-  PullRequest,
-  Issue,
-  Contributor,
-  CommitActivity,
-  CodeFrequency,
-  Release,
-  fetchRepository,
-  fetchContributors,
-  fetchIssues,
-  fetchPullRequests,
-  fetchCommitActivity,
-  fetchCodeFrequency,
-  fetchReleases,
-  calculateIssueResolutionTime,
-  calculatePRMergeTime,
-  formatDuration,
-  formatDate,
-} from "@/services/githubService";
-import {
-  DocCheckResult,
-  checkDocumentationFiles,
-} from "@/services/docsService";
+  repoKeys,
+  useRepositoryQuery,
+  useContributorsQuery,
+  useIssuesQuery,
+  usePullRequestsQuery,
+  useCommitActivityQuery,
+  useCodeFrequencyQuery,
+  useReleasesQuery,
+  useDocumentationQuery,
+  Snapshot,
+} from "@/hooks/use-repository-queries";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -32,14 +27,26 @@ import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import RepositorySearch from "./RepositorySearch";
 import MetricCard from "./MetricCard";
 import Chart from "./Chart";
 import DocumentationChecklist from "./DocumentationChecklist";
-import { getMockData } from "@/utils/mockData";
+import PaginationProgressCard from "./PaginationProgressCard";
+import WidgetError from "./WidgetError";
+import StaleBadge from "./StaleBadge";
+import { DEFAULT_MOCK_SCENARIO, getMockData, MOCK_SCENARIOS, MockScenario } from "@/utils/mockData";
 import { CacheManager } from "@/components/CacheManager";
+import { DiagnosticsDrawer } from "@/components/DiagnosticsDrawer";
+import { RateLimitMeter } from "@/components/RateLimitMeter";
+import { TokenSettings } from "@/components/TokenSettings";
+import { ConnectionSettings } from "@/components/ConnectionSettings";
 import { useNavigate } from "react-router-dom";
+import { useOnlineStatus } from "@/hooks/use-online-status";
+import { useMetricHistory, useRecordMetrics } from "@/hooks/use-metric-history";
+import { useMetricBundle } from "@/hooks/use-analytics";
 
 import {
   Star,
@@ -60,8 +67,24 @@ import {
   FileText,
   Heart,
   Github,
+  WifiOff,
+  FileArchive,
 } from "lucide-react";
 
+const STATS_PENDING_MESSAGE = "GitHub is computing statistics…";
+const UNSUPPORTED_MESSAGE = "Not supported by this forge";
+
+// Each widget loads, fails and retries on its own
+type Widget =
+  | "repository"
+  | "contributors"
+  | "issues"
+  | "pullRequests"
+  | "commitActivity"
+  | "codeFrequency"
+  | "releases"
+  | "docs";
+
 const Footer = () => (
   <footer className="w-full border-t border-border mt-8">
     <div className="container mx-auto px-4 py-6">
@@ -88,131 +111,132 @@ const Dashboard = () => {
   const [searchParams] = useSearchParams();
   const [repoFullName, setRepoFullName] = useState<string | null>(null);
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
 
-  const [repository, setRepository] = useState<Repository | null>(null);
-  const [contributors, setContributors] = useState<Contributor[] | null>(null);
-  const [issues, setIssues] = useState<Issue[] | null>(null);
-  const [pullRequests, setPullRequests] = useState<PullRequest[] | null>(null);
-  const [commitActivity, setCommitActivity] = useState<CommitActivity[] | null>(null);
-  const [codeFrequency, setCodeFrequency] = useState<CodeFrequency[] | null>(null);
-  const [releases, setReleases] = useState<Release[] | null>(null);
-  const [docResults, setDocResults] = useState<DocCheckResult[] | null>(null);
-
-  const [isLoading, setIsLoading] = useState(false);
   const [useMockData, setUseMockData] = useState(false);
+  const [mockScenario, setMockScenario] = useState<MockScenario>(DEFAULT_MOCK_SCENARIO);
+  const [trendPeriod, setTrendPeriod] = useState<TrendPeriod>("week");
+  const online = useOnlineStatus();
 
   useEffect(() => {
     const repoParam = searchParams.get("repo");
 
     if (repoParam) {
-      setRepoFullName(repoParam);
-
-      if (!useMockData) {
-        setRepository(null);
-        setContributors(null);
-        setIssues(null);
-        setPullRequests(null);
-        setCommitActivity(null);
-        setCodeFrequency(null);
-        setReleases(null);
-        setDocResults(null);
+      if (!resolveRepository(repoParam)) {
+        toast.error("Please enter a valid repository");
       }
+      setRepoFullName(repoParam);
     }
-  }, [searchParams, useMockData]);
+  }, [searchParams]);
 
-  useEffect(() => {
-    if (!repoFullName || useMockData) return;
-
-    fetchData(repoFullName);
-  }, [repoFullName]);
-
-  const fetchData = async (repo: string) => {
-    setIsLoading(true);
-
-    const repoData = await fetchRepository(repo);
-    if (repoData) {
-      setRepository(repoData);
-
-      const [
-        contributorsData,
-        issuesData,
-        pullRequestsData,
-        commitActivityData,
-        codeFrequencyData,
-        releasesData,
-        docResultsData,
-      ] = await Promise.all([
-        fetchContributors(repo),
-        fetchIssues(repo),
-        fetchPullRequests(repo),
-        fetchCommitActivity(repo),
-        fetchCodeFrequency(repo),
-        fetchReleases(repo),
-        checkDocumentationFiles(repo),
-      ]);
-
-      setContributors(contributorsData);
-      setIssues(issuesData);
-      setPullRequests(pullRequestsData);
-      setCommitActivity(commitActivityData);
-      setCodeFrequency(codeFrequencyData);
-      setReleases(releasesData);
-      setDocResults(docResultsData);
-    }
+  // Every section loads through its own query, keyed by repository, so a previous repository's
+  // responses never land here. The rest wait for the repository: without it they would fail the same way.
+  const ref = useMockData ? null : repoFullName;
+  const repositoryQuery = useRepositoryQuery(ref);
+  const dependent = { enabled: repositoryQuery.isSuccess };
+  const contributorsQuery = useContributorsQuery(ref, 10, dependent);
+  const issuesQuery = useIssuesQuery(ref, {}, dependent);
+  const pullRequestsQuery = usePullRequestsQuery(ref, {}, dependent);
+  const commitActivityQuery = useCommitActivityQuery(ref, dependent);
+  const codeFrequencyQuery = useCodeFrequencyQuery(ref, dependent);
+  const releasesQuery = useReleasesQuery(ref, 10, dependent);
+  const docsQuery = useDocumentationQuery(ref, dependent);
 
-    setIsLoading(false);
+  const queries: Record<Widget, UseQueryResult<Snapshot<unknown>>> = {
+    repository: repositoryQuery,
+    contributors: contributorsQuery,
+    issues: issuesQuery,
+    pullRequests: pullRequestsQuery,
+    commitActivity: commitActivityQuery,
+    codeFrequency: codeFrequencyQuery,
+    releases: releasesQuery,
+    docs: docsQuery,
   };
 
-  const handleSearch = (repo: string) => {
-    if (repo !== repoFullName) {
-      setIsLoading(true);
-    }
+  // Mock mode fills every widget from the selected scenario instead; the queries stay idle
+  const mockData = useMemo(() => (useMockData ? getMockData(mockScenario) : null), [useMockData, mockScenario]);
+
+  const repository = mockData?.repository ?? repositoryQuery.data?.value ?? null;
+  const contributors = mockData?.contributors ?? contributorsQuery.data?.value ?? null;
+  const issues = mockData?.issues ?? issuesQuery.data?.value ?? null;
+  const pullRequests = mockData?.pullRequests ?? pullRequestsQuery.data?.value ?? null;
+  const commitActivity = mockData?.commitActivity ?? commitActivityQuery.data?.value ?? null;
+  const codeFrequency = mockData?.codeFrequency ?? codeFrequencyQuery.data?.value ?? null;
+  const releases = mockData?.releases ?? releasesQuery.data?.value ?? null;
+  const docResults = mockData?.docResults ?? docsQuery.data?.value ?? null;
+  const issuesProgress = issuesQuery.data?.progress ?? null;
+  const pullsProgress = pullRequestsQuery.data?.progress ?? null;
+  const commitActivityPending = commitActivityQuery.pending;
+  const codeFrequencyPending = codeFrequencyQuery.pending;
+
+  // Loading until the section's query has data; queries still waiting on the repository count as loading
+  const isSectionLoading = (widget: Widget) => {
+    const query = queries[widget];
+    return Boolean(ref) && query.isPending && (query.isFetching || repositoryQuery.isPending);
   };
 
-  const getLatestCommitCount = () => {
-    if (!Array.isArray(commitActivity) || commitActivity.length === 0) {
-      return "0";
-    }
-    const latestWeek = commitActivity[commitActivity.length - 1];
-    return latestWeek?.total?.toLocaleString() || "0";
+  // Failed sections without data to fall back on; background refetch failures keep showing the last data
+  const errors = Object.fromEntries(
+    Object.entries(queries)
+      .filter(([, query]) => query.isError && query.data === undefined)
+      .map(([widget, query]) => [widget, toApiError(query.error)])
+  ) as Partial<Record<Widget, ApiError>>;
+
+  // When a section's data was cached, if it is being served from an expired entry
+  const asOf = (widget: Widget) => queries[widget].data?.asOf ?? null;
+
+  // Sections answered from an imported snapshot file rather than the forge
+  const showsImportedSnapshot = Object.values(queries).some((query) => query.data?.imported);
+
+  const retry = (widget: Widget) => () => {
+    queries[widget].refetch();
   };
 
-  const commitActivityChartData = Array.isArray(commitActivity)
-    ? commitActivity.map(week => ({
-        week: new Date(week.week * 1000).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-        commits: week.total
-      }))
-    : [];
-
-  const codeFrequencyChartData = Array.isArray(codeFrequency)
-    ? codeFrequency.map(week => ({
-        week: new Date(week.week * 1000).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-        additions: week.additions,
-        deletions: week.deletions
-      }))
-    : [];
-
-  const issuesChartData = Array.isArray(issues)
-    ? [
-        { name: "Open", value: issues.filter((issue) => issue.state === "open").length },
-        { name: "Closed", value: issues.filter((issue) => issue.state === "closed").length },
-      ]
-    : [];
-
-  const pullRequestsChartData = Array.isArray(pullRequests)
-    ? [
-        { name: "Open", value: pullRequests.filter((pr) => pr.state === "open").length },
-        { name: "Merged", value: pullRequests.filter((pr) => pr.merged_at !== null).length },
-        { name: "Closed (Unmerged)", value: pullRequests.filter((pr) => pr.state === "closed" && pr.merged_at === null).length },
-      ]
-    : [];
-
-  const issueResolutionTime = issues ? calculateIssueResolutionTime(issues) : null;
-  const prMergeTime = pullRequests ? calculatePRMergeTime(pullRequests) : null;
-
-  const getStateColor = (state: string, merged_at?: string | null) => {
+  // Charts and averages are computed in the analytics worker, off the render path
+  const {
+    commitActivityChartData,
+    codeFrequencyChartData,
+    issuesChartData,
+    pullRequestsChartData,
+    openIssuesCount,
+    latestCommitCount,
+    issueResolutionTime,
+    prMergeTime,
+    docScore,
+    isComputing,
+  } = useMetricBundle({
+    openIssuesCount: repository?.open_issues_count ?? null,
+    openPullRequestsCount: repository?.open_pull_requests_count ?? null,
+    issues,
+    pullRequests,
+    commitActivity,
+    codeFrequency,
+    docResults,
+  });
+
+  // Only live, complete data goes into the history: lists still paging would skew the averages, and
+  // a bundle still being computed may describe the previous data
+  const isLive = (widget: Widget) =>
+    queries[widget].isSuccess && !queries[widget].isFetching && asOf(widget) === null && !isComputing;
+  const historyRepo = ref && repository ? repository.html_url : null;
+  useRecordMetrics(historyRepo, {
+    stars: isLive("repository") ? repository.stargazers_count : undefined,
+    forks: isLive("repository") ? repository.forks_count : undefined,
+    watchers: isLive("repository") ? repository.watchers_count : undefined,
+    openIssues:
+      isLive("repository") && (repository.open_pull_requests_count !== undefined || isLive("pullRequests"))
+        ? openIssuesCount
+        : undefined,
+    issueResolutionTime: isLive("issues") ? issueResolutionTime : undefined,
+    prMergeTime: isLive("pullRequests") ? prMergeTime : undefined,
+    docScore: isLive("docs") ? docScore : undefined,
+  });
+  const { data: history } = useMetricHistory(historyRepo);
+  const trend = (metric: MetricName) => (history ? buildTrend(history, metric, trendPeriod) : null);
+
+  const getStateColor = (state: string, merged: boolean) => {
     if (state === "open") return "bg-github-green";
-    if (merged_at) return "bg-github-purple";
+    if (merged) return "bg-github-purple";
     return "bg-github-gray";
   };
 
@@ -227,17 +251,57 @@ const Dashboard = () => {
         <Database className="h-4 w-4" />
         <span>Use mock data for preview</span>
       </label>
+      {useMockData && (
+        <Select value={mockScenario} onValueChange={(value) => setMockScenario(value as MockScenario)}>
+          <SelectTrigger className="w-56 h-8 ml-2">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MOCK_SCENARIOS.map((scenario) => (
+              <SelectItem key={scenario.id} value={scenario.id}>
+                {scenario.label}
+                <span className="text-xs text-muted-foreground ml-2">{scenario.description}</span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
     </div>
   );
 
-  const [repoOwner, repoName] = repoFullName ? repoFullName.split('/') : ['', ''];
+  // Mock data describes a GitHub repository of its own, whatever the URL asks for
+  const resolved = repoFullName && !mockData ? resolveRepository(repoFullName) : null;
+  const [repoOwner, repoName] = mockData
+    ? mockData.repository.full_name.split('/')
+    : repoFullName ? repoFullName.split('/') : ['', ''];
+  const provider = resolved?.provider ?? null;
+  const providerName = provider?.name || "GitHub";
+  const issuesSupported = !provider || Boolean(provider.fetchIssues);
+  const commitActivitySupported = !provider || Boolean(provider.fetchCommitActivity);
+  const codeFrequencySupported = !provider || Boolean(provider.fetchCodeFrequency);
+  // Forges count activity from a capped commit list; once it is full, the oldest weeks miss commits
+  const activityCap = provider?.activityCap ?? null;
+  const activityCapped =
+    activityCap !== null && (commitActivity ?? []).reduce((sum, week) => sum + week.total, 0) >= activityCap;
 
+  // Cached responses are gone, so drop the queries built on them and load again
   const handleCacheCleared = () => {
     if (repoFullName) {
-      fetchData(repoFullName);
+      queryClient.resetQueries({ queryKey: repoKeys.all(repoFullName) });
     }
   };
 
+  // Query keys don't name the GitHub connection, so nothing loaded through the previous one is kept
+  const handleConnectionChanged = () => {
+    queryClient.resetQueries({ queryKey: repoKeys.root });
+  };
+
+  const handleDiscardSnapshot = async () => {
+    const count = await cacheService.deleteImported();
+    toast.success(`Discarded ${count} imported entries`);
+    queryClient.resetQueries({ queryKey: repoKeys.root });
+  };
+
   const handleLogoClick = () => {
     navigate('/');
   };
@@ -267,7 +331,11 @@ const Dashboard = () => {
                 Gitalytics
               </span>
             </div>
-            <ThemeToggle />
+            <div className="flex items-center gap-4">
+              <ConnectionSettings />
+              <TokenSettings />
+              <ThemeToggle />
+            </div>
           </div>
 
           <div className="text-center mb-12">
@@ -277,7 +345,7 @@ const Dashboard = () => {
               and overall impact.
             </p>
             <div className="max-w-xl mx-auto mb-6">
-              <RepositorySearch onSearch={handleSearch} />
+              <RepositorySearch />
             </div>
           </div>
 
@@ -376,18 +444,45 @@ const Dashboard = () => {
           </div>
           <div className="flex items-center gap-4">
             <div className="w-[400px]">
-              <RepositorySearch
-                defaultValue={repoFullName}
-                onSearch={handleSearch}
-              />
+              <RepositorySearch defaultValue={repoFullName} />
             </div>
+            <RateLimitMeter />
+            <ConnectionSettings onConnectionChanged={handleConnectionChanged} />
+            <TokenSettings />
             <CacheManager onCacheCleared={handleCacheCleared} />
+            <DiagnosticsDrawer />
             <ThemeToggle />
           </div>
         </div>
 
         <MockDataToggle />
 
+        {!online && (
+          <Alert className="mb-6">
+            <WifiOff className="h-4 w-4" />
+            <AlertTitle>You're offline</AlertTitle>
+            <AlertDescription>
+              Showing cached data where available. Sections marked "as of" will refresh once you're back online.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {showsImportedSnapshot && (
+          <Alert className="mb-6">
+            <FileArchive className="h-4 w-4" />
+            <AlertTitle>Imported snapshot</AlertTitle>
+            <AlertDescription className="flex items-center justify-between gap-4">
+              <span>
+                Sections marked "as of" show data imported from a snapshot file, as it was when exported. It doesn't
+                expire until you discard it.
+              </span>
+              <Button variant="outline" size="sm" onClick={handleDiscardSnapshot}>
+                Load live data
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
         {repository ? (
           <Card className="mb-8">
             <CardHeader className="flex flex-row items-start gap-4">
@@ -409,6 +504,7 @@ const Dashboard = () => {
                     </a>
                   </CardTitle>
                   <div className="flex gap-2">
+                    {asOf("repository") && <StaleBadge asOf={asOf("repository")} />}
                     {repository.language && (
                       <Badge variant="outline">{repository.language}</Badge>
                     )}
@@ -454,11 +550,17 @@ const Dashboard = () => {
                 rel="noopener noreferrer"
                 className="inline-flex items-center text-sm text-primary"
               >
-                View on GitHub
+                View on {providerName}
                 <ChevronRight className="h-4 w-4 ml-1" />
               </a>
             </CardFooter>
           </Card>
+        ) : errors.repository ? (
+          <Card className="mb-8">
+            <CardContent>
+              <WidgetError error={errors.repository} onRetry={retry("repository")} />
+            </CardContent>
+          </Card>
         ) : (
           <Card className="mb-8">
             <CardHeader>
@@ -471,50 +573,143 @@ const Dashboard = () => {
           </Card>
         )}
 
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+        <PaginationProgressCard
+          items={[
+            { label: "issues", progress: issuesProgress },
+            { label: "pull requests", progress: pullsProgress },
+          ]}
+        />
+
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm text-muted-foreground">
+            {history?.length ? `Trends from ${history.length} recorded days` : "Trends appear as daily snapshots are recorded"}
+          </span>
+          <Tabs value={trendPeriod} onValueChange={(value) => setTrendPeriod(value as TrendPeriod)}>
+            <TabsList className="h-8">
+              <TabsTrigger value="week" className="text-xs">7 days</TabsTrigger>
+              <TabsTrigger value="month" className="text-xs">30 days</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
           <MetricCard
             title="Stars"
             value={repository?.stargazers_count?.toLocaleString() || "0"}
             description="Repository stars"
             icon={<Star className="h-4 w-4" />}
-            isLoading={isLoading}
+            isLoading={isSectionLoading("repository")}
+            error={errors.repository}
+            onRetry={retry("repository")}
+            asOf={asOf("repository")}
+            trend={trend("stars")}
           />
           <MetricCard
             title="Forks"
             value={repository?.forks_count?.toLocaleString() || "0"}
             description="Repository forks"
             icon={<GitFork className="h-4 w-4" />}
-            isLoading={isLoading}
+            isLoading={isSectionLoading("repository")}
+            error={errors.repository}
+            onRetry={retry("repository")}
+            asOf={asOf("repository")}
+            trend={trend("forks")}
           />
           <MetricCard
             title="Issues"
-            value={repository?.open_issues_count?.toLocaleString() || "0"}
-            description="Open issues"
+            value={issuesSupported ? openIssuesCount.toLocaleString() : "N/A"}
+            description={issuesSupported ? "Open issues (excluding PRs)" : UNSUPPORTED_MESSAGE}
             icon={<AlertCircle className="h-4 w-4" />}
-            isLoading={isLoading}
+            isLoading={isSectionLoading("repository")}
+            error={errors.repository}
+            onRetry={retry("repository")}
+            asOf={asOf("repository")}
+            trend={issuesSupported ? trend("openIssues") : null}
+            lowerIsBetter
           />
           <MetricCard
             title="Weekly Commits"
-            value={getLatestCommitCount()}
-            description="Commits in the last week"
+            value={!commitActivitySupported ? "N/A" : commitActivityPending ? "…" : latestCommitCount.toLocaleString()}
+            description={
+              !commitActivitySupported
+                ? UNSUPPORTED_MESSAGE
+                : commitActivityPending ? STATS_PENDING_MESSAGE : "Commits in the last week"
+            }
             icon={<GitCommit className="h-4 w-4" />}
-            isLoading={isLoading}
+            isLoading={isSectionLoading("commitActivity")}
+            error={errors.commitActivity}
+            onRetry={retry("commitActivity")}
+            asOf={asOf("commitActivity")}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+          <MetricCard
+            title="Issue Resolution"
+            value={!issuesSupported ? "N/A" : issueResolutionTime !== null ? formatDuration(issueResolutionTime) : "N/A"}
+            description={issuesSupported ? "Average time to close an issue" : UNSUPPORTED_MESSAGE}
+            icon={<Clock className="h-4 w-4" />}
+            isLoading={isSectionLoading("issues")}
+            error={errors.issues}
+            onRetry={retry("issues")}
+            asOf={asOf("issues")}
+            trend={issuesSupported ? trend("issueResolutionTime") : null}
+            formatDelta={(delta) => formatDuration(Math.abs(delta))}
+            lowerIsBetter
+          />
+          <MetricCard
+            title="PR Merge Time"
+            value={prMergeTime !== null ? formatDuration(prMergeTime) : "N/A"}
+            description="Average time to merge a pull request"
+            icon={<GitPullRequest className="h-4 w-4" />}
+            isLoading={isSectionLoading("pullRequests")}
+            error={errors.pullRequests}
+            onRetry={retry("pullRequests")}
+            asOf={asOf("pullRequests")}
+            trend={trend("prMergeTime")}
+            formatDelta={(delta) => formatDuration(Math.abs(delta))}
+            lowerIsBetter
+          />
+          <MetricCard
+            title="Documentation"
+            value={docScore !== null ? `${docScore}%` : "N/A"}
+            description="Documentation health score"
+            icon={<FileText className="h-4 w-4" />}
+            isLoading={isSectionLoading("docs")}
+            error={errors.docs}
+            onRetry={retry("docs")}
+            asOf={asOf("docs")}
+            trend={trend("docScore")}
+            formatDelta={(delta) => `${Math.abs(delta)} points`}
           />
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
           <Chart
             title="Commit Activity"
-            description="Weekly commits over time"
+            description={
+              activityCapped
+                ? `Weekly commits from the latest ${activityCap.toLocaleString()}; earlier weeks are incomplete`
+                : "Weekly commits over time"
+            }
             data={commitActivityChartData}
             type="multi"
             xKey="week"
             yKeys={[{ key: "commits", name: "Commits", color: "hsl(var(--primary))" }]}
-            isLoading={isLoading}
+            isLoading={isSectionLoading("commitActivity")}
+            pendingMessage={commitActivityPending ? STATS_PENDING_MESSAGE : undefined}
+            unsupportedMessage={commitActivitySupported ? undefined : UNSUPPORTED_MESSAGE}
+            error={errors.commitActivity}
+            onRetry={retry("commitActivity")}
+            asOf={asOf("commitActivity")}
           />
           <Chart
             title="Code Frequency"
-            description="Weekly code additions and deletions"
+            description={
+              activityCapped
+                ? `Weekly additions and deletions from the latest ${activityCap.toLocaleString()} commits`
+                : "Weekly code additions and deletions"
+            }
             data={codeFrequencyChartData}
             type="multi"
             xKey="week"
@@ -522,7 +717,12 @@ const Dashboard = () => {
               { key: "additions", name: "Additions", color: "hsl(var(--github-green))" },
               { key: "deletions", name: "Deletions", color: "hsl(var(--github-red))" },
             ]}
-            isLoading={isLoading}
+            isLoading={isSectionLoading("codeFrequency")}
+            pendingMessage={codeFrequencyPending ? STATS_PENDING_MESSAGE : undefined}
+            unsupportedMessage={codeFrequencySupported ? undefined : UNSUPPORTED_MESSAGE}
+            error={errors.codeFrequency}
+            onRetry={retry("codeFrequency")}
+            asOf={asOf("codeFrequency")}
           />
         </div>
 
@@ -536,7 +736,11 @@ const Dashboard = () => {
             yKeys={[
               { key: "value", name: "Count", color: "hsl(var(--primary))" },
             ]}
-            isLoading={isLoading}
+            isLoading={isSectionLoading("issues")}
+            unsupportedMessage={issuesSupported ? undefined : UNSUPPORTED_MESSAGE}
+            error={errors.issues}
+            onRetry={retry("issues")}
+            asOf={asOf("issues")}
           />
           <Chart
             title="Pull Requests"
@@ -547,7 +751,10 @@ const Dashboard = () => {
             yKeys={[
               { key: "value", name: "Count", color: "hsl(var(--primary))" },
             ]}
-            isLoading={isLoading}
+            isLoading={isSectionLoading("pullRequests")}
+            error={errors.pullRequests}
+            onRetry={retry("pullRequests")}
+            asOf={asOf("pullRequests")}
           />
         </div>
 
@@ -568,7 +775,7 @@ const Dashboard = () => {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                {isLoading ? (
+                {isSectionLoading("contributors") ? (
                   Array.from({ length: 5 }).map((_, i) => (
                     <div key={i} className="flex items-center gap-4 py-3">
                       <div className="h-10 w-10 rounded-full skeleton"></div>
@@ -578,6 +785,8 @@ const Dashboard = () => {
                       </div>
                     </div>
                   ))
+                ) : errors.contributors ? (
+                  <WidgetError error={errors.contributors} onRetry={retry("contributors")} />
                 ) : contributors && contributors.length > 0 ? (
                   <div className="space-y-4">
                     {contributors.slice(0, 10).map((contributor, index) => (
@@ -621,13 +830,15 @@ const Dashboard = () => {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                {isLoading ? (
+                {isSectionLoading("issues") && !issues ? (
                   Array.from({ length: 5 }).map((_, i) => (
                     <div key={i} className="py-3">
                       <div className="h-5 w-full skeleton mb-2"></div>
                       <div className="h-4 w-1/2 skeleton"></div>
                     </div>
                   ))
+                ) : errors.issues ? (
+                  <WidgetError error={errors.issues} onRetry={retry("issues")} />
                 ) : issues && issues.length > 0 ? (
                   <div className="space-y-4">
                     {issues.slice(0, 10).map((issue, index) => (
@@ -670,7 +881,7 @@ const Dashboard = () => {
                   </div>
                 ) : (
                   <div className="text-center py-8 text-muted-foreground">
-                    No issues data available
+                    {issuesSupported ? "No issues data available" : UNSUPPORTED_MESSAGE}
                   </div>
                 )}
               </CardContent>
@@ -686,13 +897,15 @@ const Dashboard = () => {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                {isLoading ? (
+                {isSectionLoading("pullRequests") && !pullRequests ? (
                   Array.from({ length: 5 }).map((_, i) => (
                     <div key={i} className="py-3">
                       <div className="h-5 w-full skeleton mb-2"></div>
                       <div className="h-4 w-1/2 skeleton"></div>
                     </div>
                   ))
+                ) : errors.pullRequests ? (
+                  <WidgetError error={errors.pullRequests} onRetry={retry("pullRequests")} />
                 ) : pullRequests && pullRequests.length > 0 ? (
                   <div className="space-y-4">
                     {pullRequests.slice(0, 10).map((pr, index) => (
@@ -708,10 +921,10 @@ const Dashboard = () => {
                           </a>
                           <div className="flex items-center">
                             <div
-                              className={`h-2 w-2 rounded-full mr-2 ${getStateColor(pr.state, pr.merged_at)}`}
+                              className={`h-2 w-2 rounded-full mr-2 ${getStateColor(pr.state, isMerged(pr))}`}
                             />
                             <span className="text-xs text-muted-foreground">
-                              {pr.merged_at ? "merged" : pr.state}
+                              {isMerged(pr) ? "merged" : pr.state}
                             </span>
                           </div>
                         </div>
@@ -743,7 +956,7 @@ const Dashboard = () => {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                {isLoading ? (
+                {isSectionLoading("releases") ? (
                   Array.from({ length: 3 }).map((_, i) => (
                     <div key={i} className="mb-6">
                       <div className="h-6 w-24 skeleton mb-2"></div>
@@ -751,6 +964,8 @@ const Dashboard = () => {
                       <div className="h-4 w-3/4 skeleton"></div>
                     </div>
                   ))
+                ) : errors.releases ? (
+                  <WidgetError error={errors.releases} onRetry={retry("releases")} />
                 ) : releases && releases.length > 0 ? (
                   <div className="space-y-6">
                     {releases.map((release, index) => (
@@ -774,7 +989,7 @@ const Dashboard = () => {
                             rel="noopener noreferrer"
                             className="text-sm text-primary flex items-center"
                           >
-                            View on GitHub
+                            View on {providerName}
                             <ExternalLink className="h-3 w-3 ml-1" />
                           </a>
                         </div>
@@ -790,6 +1005,23 @@ const Dashboard = () => {
             </Card>
           </TabsContent>
         </Tabs>
+
+        <div className="mb-8">
+          <DocumentationChecklist
+            docResults={docResults}
+            isLoading={isSectionLoading("docs")}
+            error={errors.docs}
+            onRetry={retry("docs")}
+            repoOwner={repoOwner}
+            repoName={repoName}
+            defaultBranch={repository?.default_branch}
+            createFileUrl={
+              resolved && repository
+                ? (path) => resolved.provider.createFileUrl(resolved.fullName, repository.default_branch, path)
+                : undefined
+            }
+          />
+        </div>
       </div>
       <Footer />
     </div>
@@ -6,19 +6,32 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
 import { DocCheckResult, getDocHealthColor, getDocHealthEmoji } from "@/services/docsService";
+import { hostService } from "@/services/hostService";
+import { ApiError } from "@/services/apiErrors";
+import WidgetError from "./WidgetError";
 
 interface DocumentationChecklistProps {
   docResults: DocCheckResult[] | null;
   isLoading: boolean;
+  error?: ApiError | null; // Shown instead of the checklist when loading it failed
+  onRetry?: () => void;
   repoOwner: string;
   repoName: string;
+  defaultBranch?: string; // Branch new files are created on when createFileUrl isn't given
+  // Provider-specific "new file" link; defaults to the active GitHub connection
+  createFileUrl?: (path: string) => string;
 }
 
 const DocumentationChecklist: React.FC<DocumentationChecklistProps> = ({
   docResults,
   isLoading,
+  error,
+  onRetry,
   repoOwner,
-  repoName
+  repoName,
+  defaultBranch = "main",
+  createFileUrl = (path) =>
+    `${hostService.getActiveHost().webBaseUrl}/${repoOwner}/${repoName}/new/${defaultBranch}?filename=${path}`
 }) => {
   if (isLoading) {
     return (
@@ -51,6 +64,25 @@ const DocumentationChecklist: React.FC<DocumentationChecklistProps> = ({
     );
   }
 
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Documentation Health
+          </CardTitle>
+          <CardDescription>
+            FOSS documentation compliance checklist
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <WidgetError error={error} onRetry={onRetry} />
+        </CardContent>
+      </Card>
+    );
+  }
+
   if (!docResults || docResults.length === 0) {
     return (
       <Card>
@@ -92,10 +124,6 @@ const DocumentationChecklist: React.FC<DocumentationChecklistProps> = ({
     ((optionalCount / totalOptional) * 10)
   );
 
-  const createFileUrl = (fileName: string) => {
-    return `https://github.com/${repoOwner}/${repoName}/new/main?filename=${fileName}`;
-  };
-
   return (
     <Card className="mb-6">
       <CardHeader>
@@ -123,21 +151,21 @@ const DocumentationChecklist: React.FC<DocumentationChecklistProps> = ({
         <div className="space-y-1">
           <h4 className="text-sm font-semibold mb-1">Critical Documents</h4>
           {criticalFiles.map((result, i) => (
-            <DocFileRow key={`critical-${i}`} result={result} repoOwner={repoOwner} repoName={repoName} />
+            <DocFileRow key={`critical-${i}`} result={result} createFileUrl={createFileUrl} />
           ))}
         </div>
 
         <div className="space-y-1 mt-4">
           <h4 className="text-sm font-semibold mb-1">Recommended Documents</h4>
           {recommendedFiles.map((result, i) => (
-            <DocFileRow key={`recommended-${i}`} result={result} repoOwner={repoOwner} repoName={repoName} />
+            <DocFileRow key={`recommended-${i}`} result={result} createFileUrl={createFileUrl} />
           ))}
         </div>
 
         <div className="space-y-1 mt-4">
           <h4 className="text-sm font-semibold mb-1">Optional Documents</h4>
           {optionalFiles.map((result, i) => (
-            <DocFileRow key={`optional-${i}`} result={result} repoOwner={repoOwner} repoName={repoName} />
+            <DocFileRow key={`optional-${i}`} result={result} createFileUrl={createFileUrl} />
           ))}
         </div>
       </CardContent>
@@ -145,10 +173,9 @@ const DocumentationChecklist: React.FC<DocumentationChecklistProps> = ({
   );
 };
 
-const DocFileRow = ({ result, repoOwner, repoName }: { 
+const DocFileRow = ({ result, createFileUrl }: { 
   result: DocCheckResult;
-  repoOwner: string;
-  repoName: string;
+  createFileUrl: (path: string) => string;
 }) => {
   const { file, exists, url } = result;
   
@@ -174,7 +201,7 @@ const DocFileRow = ({ result, repoOwner, repoName }: {
             </Button>
           </a>
         ) : (
-          <a href={`https://github.com/${repoOwner}/${repoName}/new/main?filename=${file.path}`} 
+          <a href={createFileUrl(file.path)} 
              target="_blank" 
              rel="noopener noreferrer" 
              className="inline-flex items-center text-sm">
@@ -2,6 +2,11 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
 import { ReactNode } from "react";
+import { Line, LineChart, ResponsiveContainer } from "recharts";
+import { ApiError } from "@/services/apiErrors";
+import { MetricTrend } from "@/services/metricHistoryService";
+import WidgetError from "./WidgetError";
+import StaleBadge from "./StaleBadge";
 
 interface MetricCardProps {
   title: string;
@@ -10,6 +15,12 @@ interface MetricCardProps {
   icon?: ReactNode;
   className?: string;
   isLoading?: boolean;
+  error?: ApiError | null; // Replaces the value when loading it failed
+  onRetry?: () => void;
+  asOf?: number | null; // Set when the value comes from an expired cache entry
+  trend?: MetricTrend | null; // Recorded history, shown as a sparkline and the change over the period
+  formatDelta?: (delta: number) => string;
+  lowerIsBetter?: boolean; // e.g. resolution times, where a drop is good news
   onClick?: () => void;
 }
 
@@ -20,8 +31,17 @@ const MetricCard = ({
   icon,
   className,
   isLoading = false,
+  error,
+  onRetry,
+  asOf,
+  trend,
+  formatDelta = (delta) => Math.abs(delta).toLocaleString(),
+  lowerIsBetter = false,
   onClick,
 }: MetricCardProps) => {
+  const showTrend = trend && !isLoading && !error;
+  const improved = trend?.delta ? trend.delta > 0 !== lowerIsBetter : false;
+
   return (
     <Card 
       className={cn("overflow-hidden", className, onClick && "cursor-pointer card-hover")}
@@ -34,12 +54,37 @@ const MetricCard = ({
       <CardContent>
         {isLoading ? (
           <div className="w-full h-9 skeleton"></div>
+        ) : error ? (
+          <WidgetError error={error} onRetry={onRetry} compact className="min-h-9" />
         ) : (
           <div className="text-2xl font-bold">{value}</div>
         )}
-        {description && (
+        {description && !error && (
           <CardDescription className="mt-2">{description}</CardDescription>
         )}
+        {showTrend && trend.points.length > 1 && (
+          <div className="h-8 mt-2">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={trend.points.map((value) => ({ value }))}>
+                <Line type="monotone" dataKey="value" stroke="hsl(var(--primary))" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+        {showTrend && trend.delta !== null && (
+          <div className="mt-1 text-xs text-muted-foreground">
+            {trend.delta === 0 ? (
+              "No change"
+            ) : (
+              <span className={improved ? "text-github-green" : "text-github-red"}>
+                {trend.delta > 0 ? "+" : "−"}
+                {formatDelta(trend.delta)}
+              </span>
+            )}{" "}
+            since {new Date(`${trend.since}T00:00`).toLocaleDateString(undefined, { month: "short", day: "numeric" })}
+          </div>
+        )}
+        {asOf && !isLoading && !error && <StaleBadge asOf={asOf} className="mt-2" />}
       </CardContent>
     </Card>
   );
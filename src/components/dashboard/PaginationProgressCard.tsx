@@ -0,0 +1,39 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { PaginationProgress } from "@/services/githubService";
+import { Loader2 } from "lucide-react";
+
+interface PaginationProgressCardProps {
+  items: { label: string; progress: PaginationProgress | null }[];
+}
+
+const PaginationProgressCard = ({ items }: PaginationProgressCardProps) => {
+  const active = items.filter(item => item.progress && !item.progress.done);
+
+  if (active.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="pt-6 space-y-4">
+        {active.map(({ label, progress }) => (
+          <div key={label}>
+            <div className="flex items-center justify-between mb-2 text-sm">
+              <span className="flex items-center gap-2 font-medium">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading {label}
+              </span>
+              <span className="text-muted-foreground">
+                {progress.loaded.toLocaleString()} of up to {progress.maxItems.toLocaleString()} (page {progress.page})
+              </span>
+            </div>
+            <Progress value={(progress.loaded / progress.maxItems) * 100} className="h-2" />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PaginationProgressCard;
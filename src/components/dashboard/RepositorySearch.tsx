@@ -4,6 +4,7 @@ import { Search } from "lucide-react";
 import { useState, useEffect } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import { toast } from "sonner";
+import { resolveRepository } from "@/services/providers";
 
 interface RepositorySearchProps {
   defaultValue?: string;
@@ -30,9 +31,8 @@ const RepositorySearch = ({ defaultValue = "", onSearch }: RepositorySearchProps
       return;
     }
     
-    const isValidFormat = /^[a-zA-Z0-9_.-]+\/[a-zA-Z0-9_.-]+$/.test(repoInput);
-    if (!isValidFormat) {
-      toast.error("Please enter a valid repository in the format 'owner/repository'");
+    if (!resolveRepository(repoInput)) {
+      toast.error("Please enter a repository as 'owner/repository', 'gitlab:group/project', 'gitea:owner/repository', 'bitbucket:workspace/repository' or a project URL");
       return;
     }
     
@@ -48,7 +48,7 @@ const RepositorySearch = ({ defaultValue = "", onSearch }: RepositorySearchProps
       <div className="relative flex-1">
         <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
         <Input
-          placeholder="owner/repository (e.g. facebook/react)"
+          placeholder="owner/repository, gitlab:group/project or a project URL"
           className="pl-9"
           value={repoInput}
           onChange={(e) => setRepoInput(e.target.value)}
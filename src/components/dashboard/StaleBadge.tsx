@@ -0,0 +1,27 @@
+import { History } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface StaleBadgeProps {
+  asOf: number; // When the data shown was cached
+  className?: string;
+}
+
+// Marks a widget showing cached data instead of live data: expired entries served because the forge
+// couldn't be reached, or an imported snapshot
+export const StaleBadge = ({ asOf, className }: StaleBadgeProps) => {
+  const cachedAt = new Date(asOf).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" });
+
+  return (
+    <Badge
+      variant="outline"
+      className={cn("gap-1 font-normal text-muted-foreground whitespace-nowrap", className)}
+      title={`Not live: showing data cached at ${cachedAt}`}
+    >
+      <History className="h-3 w-3" />
+      as of {cachedAt}
+    </Badge>
+  );
+};
+
+export default StaleBadge;
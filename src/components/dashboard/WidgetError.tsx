@@ -0,0 +1,48 @@
+import { ReactNode } from "react";
+import { Lock, RefreshCw, SearchX, ServerCrash, Timer, WifiOff } from "lucide-react";
+import { ApiError, describeApiError } from "@/services/apiErrors";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface WidgetErrorProps {
+  error: ApiError;
+  onRetry?: () => void;
+  compact?: boolean; // Single line, for metric cards
+  className?: string;
+}
+
+const ICONS: Record<ApiError["kind"], ReactNode> = {
+  "not-found": <SearchX className="h-5 w-5" />,
+  "rate-limited": <Timer className="h-5 w-5" />,
+  "unauthorized": <Lock className="h-5 w-5" />,
+  "network": <WifiOff className="h-5 w-5" />,
+  "server": <ServerCrash className="h-5 w-5" />,
+};
+
+export const WidgetError = ({ error, onRetry, compact = false, className }: WidgetErrorProps) => {
+  const retry = onRetry && (
+    <Button variant="outline" size="sm" onClick={onRetry}>
+      <RefreshCw className="h-3 w-3 mr-1" />
+      Retry
+    </Button>
+  );
+
+  if (compact) {
+    return (
+      <div className={cn("flex items-center justify-between gap-2 text-sm text-destructive", className)}>
+        <span>{describeApiError(error)}</span>
+        {retry}
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("w-full flex flex-col items-center justify-center gap-2 py-8 text-sm text-muted-foreground", className)}>
+      <div className="text-destructive">{ICONS[error.kind]}</div>
+      <span className="text-center">{describeApiError(error)}</span>
+      {retry}
+    </div>
+  );
+};
+
+export default WidgetError;
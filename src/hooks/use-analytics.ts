@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react";
+import { AnalyticsInput, EMPTY_BUNDLE, MetricBundle } from "@/services/analytics";
+import { analyticsService } from "@/services/analyticsService";
+import { createLogger } from "@/services/logger";
+
+const log = createLogger("analytics");
+
+interface ComputedBundle {
+  inputs: unknown[];
+  bundle: MetricBundle;
+}
+
+// Metrics derived from the loaded data, computed in the analytics worker whenever an input changes.
+// The previous bundle stays up while a new one is computed; isComputing tells the two apart.
+export const useMetricBundle = (input: AnalyticsInput) => {
+  const { openIssuesCount, openPullRequestsCount, issues, pullRequests, commitActivity, codeFrequency, docResults } = input;
+  const inputs = [openIssuesCount, openPullRequestsCount, issues, pullRequests, commitActivity, codeFrequency, docResults];
+  const [computed, setComputed] = useState<ComputedBundle>({ inputs: [], bundle: EMPTY_BUNDLE });
+
+  useEffect(() => {
+    let current = true;
+    analyticsService
+      .compute({ openIssuesCount, openPullRequestsCount, issues, pullRequests, commitActivity, codeFrequency, docResults })
+      .then((bundle) => {
+        if (current) {
+          setComputed({ inputs: [openIssuesCount, openPullRequestsCount, issues, pullRequests, commitActivity, codeFrequency, docResults], bundle });
+        }
+      })
+      .catch((error) => log.error("Error computing metrics", error));
+    return () => {
+      current = false;
+    };
+  }, [openIssuesCount, openPullRequestsCount, issues, pullRequests, commitActivity, codeFrequency, docResults]);
+
+  return {
+    ...computed.bundle,
+    isComputing: inputs.some((value, i) => value !== computed.inputs[i]),
+  };
+};
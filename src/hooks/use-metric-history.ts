@@ -0,0 +1,27 @@
+import { useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { MetricValues, metricHistoryService } from "@/services/metricHistoryService";
+
+// Outside ['repo', ...]: history isn't cached API data, so clearing the cache leaves it alone
+export const metricHistoryKey = (repo: string) => ["metricHistory", repo] as const;
+
+// Daily snapshots for a repository, keyed by its web URL
+export const useMetricHistory = (repo: string | null) =>
+  useQuery({
+    queryKey: metricHistoryKey(repo),
+    queryFn: () => metricHistoryService.getHistory(repo),
+    enabled: Boolean(repo),
+  });
+
+// Record today's values whenever they change; leave a value undefined while it's loading or not live
+export const useRecordMetrics = (repo: string | null, values: MetricValues) => {
+  const queryClient = useQueryClient();
+  const { stars, forks, watchers, openIssues, issueResolutionTime, prMergeTime, docScore } = values;
+
+  useEffect(() => {
+    if (!repo) return;
+    metricHistoryService
+      .record(repo, { stars, forks, watchers, openIssues, issueResolutionTime, prMergeTime, docScore })
+      .then(() => queryClient.invalidateQueries({ queryKey: metricHistoryKey(repo) }));
+  }, [queryClient, repo, stars, forks, watchers, openIssues, issueResolutionTime, prMergeTime, docScore]);
+};
@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { QueryClient, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Repository,
+  Contributor,
+  Issue,
+  PullRequest,
+  CommitActivity,
+  CodeFrequency,
+  Release,
+  PaginationOptions,
+  PaginationProgress,
+} from "@/services/githubService";
+import { DocCheckResult } from "@/services/docsService";
+import { RepositoryBundle } from "@/services/graphqlService";
+import { isAbortError } from "@/services/apiErrors";
+import { getStaleTimestamp, wasImported } from "@/services/httpClient";
+import { createLogger } from "@/services/logger";
+import { resolveRepository, ResolvedRepository } from "@/services/providers";
+
+const log = createLogger("queries");
+
+// Limits that change which items a list query returns
+export interface ListFilters {
+  maxItems?: number;
+  since?: string;
+}
+
+// Query data plus when it was cached, if it came from an expired entry because the forge couldn't be
+// reached or from an imported snapshot file
+export interface Snapshot<T> {
+  value: T;
+  asOf: number | null; // Null when live
+  imported: boolean;
+}
+
+// A list query's items so far; updated page by page while the query is still fetching
+export interface PaginatedList<T> extends Snapshot<T[]> {
+  progress: PaginationProgress | null;
+}
+
+interface QueryOptions {
+  enabled?: boolean;
+}
+
+// Every key starts with ['repo', ref]. ref is the search box value (e.g. "owner/repo" or
+// "gitlab:group/project"), so it identifies the forge as well as the repository, but not the GitHub
+// connection: everything under root is reset when the connection changes.
+export const repoKeys = {
+  root: ["repo"] as const,
+  all: (ref: string) => [...repoKeys.root, ref] as const,
+  bundle: (ref: string) => [...repoKeys.all(ref), "bundle"] as const,
+  repository: (ref: string) => [...repoKeys.all(ref), "repository"] as const,
+  contributors: (ref: string, limit: number) => [...repoKeys.all(ref), "contributors", limit] as const,
+  issues: (ref: string, filters: ListFilters) => [...repoKeys.all(ref), "issues", filters] as const,
+  pullRequests: (ref: string, filters: ListFilters) => [...repoKeys.all(ref), "pullRequests", filters] as const,
+  commitActivity: (ref: string) => [...repoKeys.all(ref), "commitActivity"] as const,
+  codeFrequency: (ref: string) => [...repoKeys.all(ref), "codeFrequency"] as const,
+  releases: (ref: string, limit: number) => [...repoKeys.all(ref), "releases", limit] as const,
+  docs: (ref: string) => [...repoKeys.all(ref), "docs"] as const,
+};
+
+const resolve = (ref: string | null): ResolvedRepository | null => (ref ? resolveRepository(ref) : null);
+
+// The bundle is fetched with the default list filters and release count, so only those can be served from it
+const hasFilters = (filters: ListFilters) => Object.keys(filters).length > 0;
+const BUNDLE_RELEASE_COUNT = 10;
+
+// Wrap what a query function fetched with the age of any stale cache entries served under its signal
+const snapshot = <T,>(value: T, signal: AbortSignal): Snapshot<T> => ({
+  value,
+  asOf: getStaleTimestamp(signal),
+  imported: wasImported(signal),
+});
+
+// Part of the bundle, as old as the bundle itself
+const fromBundle = <T,>(bundle: Snapshot<RepositoryBundle>, value: T): Snapshot<T> => ({ ...bundle, value });
+
+// Publish each loaded page as the list query's data, so widgets fill in while paging continues
+const publishPages = <T,>(
+  queryClient: QueryClient,
+  queryKey: readonly unknown[],
+  filters: ListFilters,
+  signal: AbortSignal
+): PaginationOptions<T> => ({
+  ...filters,
+  onPage: (items, progress) =>
+    queryClient.setQueryData<PaginatedList<T>>(queryKey, { ...snapshot(items, signal), progress }),
+});
+
+// Progress of the last page published for a list query
+const lastProgress = (queryClient: QueryClient, queryKey: readonly unknown[]) =>
+  queryClient.getQueryData<PaginatedList<unknown>>(queryKey)?.progress ?? null;
+
+// The GraphQL bundle answers the repository, issue, PR, release and docs queries at once. Resolves to
+// null when the provider has none or it failed; each query then falls back to its own request.
+const fetchBundle = (queryClient: QueryClient, ref: string, { provider, fullName }: ResolvedRepository) =>
+  queryClient.fetchQuery({
+    queryKey: repoKeys.bundle(ref),
+    queryFn: async ({ signal }): Promise<Snapshot<RepositoryBundle> | null> => {
+      if (!provider.fetchBundle) {
+        return null;
+      }
+      try {
+        const bundle = await provider.fetchBundle(
+          fullName,
+          {
+            issues: publishPages(queryClient, repoKeys.issues(ref, {}), {}, signal),
+            pullRequests: publishPages(queryClient, repoKeys.pullRequests(ref, {}), {}, signal),
+          },
+          signal
+        );
+        return bundle && snapshot(bundle, signal);
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        log.warn("GraphQL bundle failed, falling back to REST", error);
+        return null;
+      }
+    },
+  });
+
+export const useRepositoryQuery = (ref: string | null) => {
+  const queryClient = useQueryClient();
+  const resolved = resolve(ref);
+
+  return useQuery({
+    queryKey: repoKeys.repository(ref),
+    queryFn: async ({ signal }): Promise<Snapshot<Repository>> => {
+      const bundle = await fetchBundle(queryClient, ref, resolved);
+      return bundle
+        ? fromBundle(bundle, bundle.value.repository)
+        : snapshot(await resolved.provider.fetchRepository(resolved.fullName, signal), signal);
+    },
+    enabled: Boolean(resolved),
+  });
+};
+
+export const useContributorsQuery = (ref: string | null, limit = 10, { enabled = true }: QueryOptions = {}) => {
+  const resolved = resolve(ref);
+
+  return useQuery({
+    queryKey: repoKeys.contributors(ref, limit),
+    queryFn: async ({ signal }): Promise<Snapshot<Contributor[]>> =>
+      snapshot(await resolved.provider.fetchContributors(resolved.fullName, limit, signal), signal),
+    enabled: enabled && Boolean(resolved),
+  });
+};
+
+export const useIssuesQuery = (ref: string | null, filters: ListFilters = {}, { enabled = true }: QueryOptions = {}) => {
+  const queryClient = useQueryClient();
+  const resolved = resolve(ref);
+  const queryKey = repoKeys.issues(ref, filters);
+
+  return useQuery({
+    queryKey,
+    queryFn: async ({ signal }): Promise<PaginatedList<Issue>> => {
+      const bundle = hasFilters(filters) ? null : await fetchBundle(queryClient, ref, resolved);
+      const issues = bundle
+        ? fromBundle(bundle, bundle.value.issues)
+        : snapshot(
+            await resolved.provider.fetchIssues(resolved.fullName, publishPages(queryClient, queryKey, filters, signal), signal),
+            signal
+          );
+      return { ...issues, progress: lastProgress(queryClient, queryKey) };
+    },
+    // Forges without issues leave fetchIssues out
+    enabled: enabled && Boolean(resolved?.provider.fetchIssues),
+  });
+};
+
+export const usePullRequestsQuery = (
+  ref: string | null,
+  filters: ListFilters = {},
+  { enabled = true }: QueryOptions = {}
+) => {
+  const queryClient = useQueryClient();
+  const resolved = resolve(ref);
+  const queryKey = repoKeys.pullRequests(ref, filters);
+
+  return useQuery({
+    queryKey,
+    queryFn: async ({ signal }): Promise<PaginatedList<PullRequest>> => {
+      const bundle = hasFilters(filters) ? null : await fetchBundle(queryClient, ref, resolved);
+      const pullRequests = bundle
+        ? fromBundle(bundle, bundle.value.pullRequests)
+        : snapshot(
+            await resolved.provider.fetchPullRequests(
+              resolved.fullName,
+              publishPages(queryClient, queryKey, filters, signal),
+              signal
+            ),
+            signal
+          );
+      return { ...pullRequests, progress: lastProgress(queryClient, queryKey) };
+    },
+    enabled: enabled && Boolean(resolved),
+  });
+};
+
+// Statistics may take minutes to compute; pending is true while the forge reports them as in progress
+const useStatsQuery = <T,>(
+  queryKey: readonly unknown[],
+  fetchStats: ((repoFullName: string, onPending?: () => void, signal?: AbortSignal) => Promise<T>) | undefined,
+  resolved: ResolvedRepository | null,
+  enabled: boolean
+) => {
+  const [pending, setPending] = useState(false);
+
+  const query = useQuery({
+    queryKey,
+    queryFn: async ({ signal }): Promise<Snapshot<T>> => {
+      try {
+        return snapshot(await fetchStats(resolved.fullName, () => setPending(true), signal), signal);
+      } finally {
+        setPending(false);
+      }
+    },
+    enabled: enabled && Boolean(fetchStats),
+  });
+
+  return { ...query, pending };
+};
+
+export const useCommitActivityQuery = (ref: string | null, { enabled = true }: QueryOptions = {}) => {
+  const resolved = resolve(ref);
+  return useStatsQuery<CommitActivity[]>(
+    repoKeys.commitActivity(ref),
+    resolved?.provider.fetchCommitActivity,
+    resolved,
+    enabled
+  );
+};
+
+export const useCodeFrequencyQuery = (ref: string | null, { enabled = true }: QueryOptions = {}) => {
+  const resolved = resolve(ref);
+  return useStatsQuery<CodeFrequency[]>(
+    repoKeys.codeFrequency(ref),
+    resolved?.provider.fetchCodeFrequency,
+    resolved,
+    enabled
+  );
+};
+
+export const useReleasesQuery = (ref: string | null, limit = 10, { enabled = true }: QueryOptions = {}) => {
+  const queryClient = useQueryClient();
+  const resolved = resolve(ref);
+
+  return useQuery({
+    queryKey: repoKeys.releases(ref, limit),
+    queryFn: async ({ signal }): Promise<Snapshot<Release[]>> => {
+      const bundle = limit === BUNDLE_RELEASE_COUNT ? await fetchBundle(queryClient, ref, resolved) : null;
+      return bundle
+        ? fromBundle(bundle, bundle.value.releases)
+        : snapshot(await resolved.provider.fetchReleases(resolved.fullName, limit, signal), signal);
+    },
+    enabled: enabled && Boolean(resolved),
+  });
+};
+
+export const useDocumentationQuery = (ref: string | null, { enabled = true }: QueryOptions = {}) => {
+  const queryClient = useQueryClient();
+  const resolved = resolve(ref);
+
+  return useQuery({
+    queryKey: repoKeys.docs(ref),
+    queryFn: async ({ signal }): Promise<Snapshot<DocCheckResult[]>> => {
+      const bundle = await fetchBundle(queryClient, ref, resolved);
+      return bundle
+        ? fromBundle(bundle, bundle.value.docResults)
+        : snapshot(await resolved.provider.checkDocumentationFiles(resolved.fullName, signal), signal);
+    },
+    enabled: enabled && Boolean(resolved),
+  });
+};
@@ -0,0 +1,173 @@
+import type { CodeFrequency, CommitActivity, Issue, PullRequest } from "./githubService";
+import type { DocCheckResult } from "./docsService";
+
+// Everything the dashboard derives from loaded data. Kept free of runtime imports so it can run in
+// the analytics worker, where the services that touch storage can't be loaded.
+
+// Data a metric bundle is computed from; null for sections that haven't loaded
+export interface AnalyticsInput {
+  openIssuesCount: number | null; // The repository's count, which includes open pull requests
+  openPullRequestsCount: number | null; // The provider's count; null falls back to the loaded pull requests
+  issues: Issue[] | null;
+  pullRequests: PullRequest[] | null;
+  commitActivity: CommitActivity[] | null;
+  codeFrequency: CodeFrequency[] | null;
+  docResults: DocCheckResult[] | null;
+}
+
+export interface CountDatum {
+  name: string;
+  value: number;
+}
+
+export interface MetricBundle {
+  commitActivityChartData: { week: string; commits: number }[];
+  codeFrequencyChartData: { week: string; additions: number; deletions: number }[];
+  issuesChartData: CountDatum[];
+  pullRequestsChartData: CountDatum[];
+  openIssuesCount: number; // Excluding open pull requests
+  latestCommitCount: number; // Commits in the last week of commit activity
+  issueResolutionTime: number | null;
+  prMergeTime: number | null;
+  docScore: number | null;
+}
+
+// A list as sent to the worker: in full, or only the items added since the previous request
+export type ListUpdate<T> = { items: T[] | null } | { appended: T[] };
+
+// Messages between analyticsService and the worker; responses carry the id of their request.
+// The worker keeps the issue and pull request lists, so each loaded page only sends its own items.
+export interface AnalyticsRequest {
+  id: number;
+  input: Omit<AnalyticsInput, "issues" | "pullRequests"> & {
+    issues: ListUpdate<Issue>;
+    pullRequests: ListUpdate<PullRequest>;
+  };
+}
+
+// The list an update leaves behind
+export const applyListUpdate = <T>(list: T[] | null, update: ListUpdate<T>): T[] | null =>
+  "items" in update ? update.items : [...(list ?? []), ...update.appended];
+
+export type AnalyticsResponse =
+  | { id: number; bundle: MetricBundle }
+  | { id: number; error: string };
+
+export const EMPTY_BUNDLE: MetricBundle = {
+  commitActivityChartData: [],
+  codeFrequencyChartData: [],
+  issuesChartData: [],
+  pullRequestsChartData: [],
+  openIssuesCount: 0,
+  latestCommitCount: 0,
+  issueResolutionTime: null,
+  prMergeTime: null,
+  docScore: null,
+};
+
+// Calculate average issue resolution time
+export const calculateIssueResolutionTime = (issues: Issue[]): number | null => {
+  const closedIssues = issues.filter(issue => issue.closed_at !== null);
+  
+  if (closedIssues.length === 0) {
+    return null;
+  }
+  
+  const totalResolutionTime = closedIssues.reduce((total, issue) => {
+    const createdAt = new Date(issue.created_at).getTime();
+    const closedAt = new Date(issue.closed_at as string).getTime();
+    return total + (closedAt - createdAt);
+  }, 0);
+  
+  // Return average in milliseconds
+  return totalResolutionTime / closedIssues.length;
+};
+
+// Merged pull requests, including those whose merge time is unknown
+export const isMerged = (pr: PullRequest): boolean => pr.merged_at !== null || pr.merged === true;
+
+// Calculate average PR merge time; only pull requests with a known merge time count
+export const calculatePRMergeTime = (prs: PullRequest[]): number | null => {
+  const mergedPRs = prs.filter(pr => pr.merged_at !== null);
+  
+  if (mergedPRs.length === 0) {
+    return null;
+  }
+  
+  const totalMergeTime = mergedPRs.reduce((total, pr) => {
+    const createdAt = new Date(pr.created_at).getTime();
+    const mergedAt = new Date(pr.merged_at as string).getTime();
+    return total + (mergedAt - createdAt);
+  }, 0);
+  
+  // Return average in milliseconds
+  return totalMergeTime / mergedPRs.length;
+};
+
+// Calculate documentation health score (0-100)
+export const calculateDocScore = (results: DocCheckResult[]): number => {
+  if (!results || results.length === 0) return 0;
+
+  const weights = {
+    critical: 40,
+    recommended: 25,
+    optional: 10
+  };
+
+  const totalPossibleScore = results.reduce(
+    (sum, result) => sum + weights[result.file.importance],
+    0
+  );
+
+  const actualScore = results.reduce(
+    (sum, result) => sum + (result.exists ? weights[result.file.importance] : 0),
+    0
+  );
+
+  return Math.round((actualScore / totalPossibleScore) * 100);
+};
+
+const formatWeek = (week: number) =>
+  new Date(week * 1000).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+export const computeMetrics = ({
+  openIssuesCount,
+  openPullRequestsCount,
+  issues,
+  pullRequests,
+  commitActivity,
+  codeFrequency,
+  docResults,
+}: AnalyticsInput): MetricBundle => {
+  const openPullRequests = Array.isArray(pullRequests) ? pullRequests.filter((pr) => pr.state === "open").length : 0;
+  const latestWeek = Array.isArray(commitActivity) ? commitActivity[commitActivity.length - 1] : null;
+
+  return {
+    commitActivityChartData: Array.isArray(commitActivity)
+      ? commitActivity.map(week => ({ week: formatWeek(week.week), commits: week.total }))
+      : [],
+    codeFrequencyChartData: Array.isArray(codeFrequency)
+      ? codeFrequency.map(week => ({ week: formatWeek(week.week), additions: week.additions, deletions: week.deletions }))
+      : [],
+    issuesChartData: Array.isArray(issues)
+      ? [
+          { name: "Open", value: issues.filter((issue) => issue.state === "open").length },
+          { name: "Closed", value: issues.filter((issue) => issue.state === "closed").length },
+        ]
+      : [],
+    pullRequestsChartData: Array.isArray(pullRequests)
+      ? [
+          { name: "Open", value: openPullRequests },
+          { name: "Merged", value: pullRequests.filter(isMerged).length },
+          { name: "Closed (Unmerged)", value: pullRequests.filter((pr) => pr.state === "closed" && !isMerged(pr)).length },
+        ]
+      : [],
+    // open_issues_count includes open PRs; the loaded ones are only a fallback, as long lists are capped
+    openIssuesCount:
+      openIssuesCount !== null ? Math.max(openIssuesCount - (openPullRequestsCount ?? openPullRequests), 0) : 0,
+    latestCommitCount: latestWeek?.total ?? 0,
+    issueResolutionTime: Array.isArray(issues) ? calculateIssueResolutionTime(issues) : null,
+    prMergeTime: Array.isArray(pullRequests) ? calculatePRMergeTime(pullRequests) : null,
+    docScore: docResults ? calculateDocScore(docResults) : null,
+  };
+};
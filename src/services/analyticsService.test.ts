@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AnalyticsInput, AnalyticsRequest, computeMetrics } from "./analytics";
+import type { Issue, PullRequest } from "./githubService";
+
+const user = { login: "jane", avatar_url: "" };
+
+const issue = (number: number, closedAfterDays: number | null): Issue => ({
+  number,
+  title: `Issue ${number}`,
+  state: closedAfterDays === null ? "open" : "closed",
+  created_at: new Date(Date.UTC(2024, 0, number)).toISOString(),
+  updated_at: new Date(Date.UTC(2024, 0, number + 1)).toISOString(),
+  closed_at: closedAfterDays === null ? null : new Date(Date.UTC(2024, 0, number + closedAfterDays)).toISOString(),
+  user,
+  labels: [],
+  html_url: `https://github.com/facebook/react/issues/${number}`,
+});
+
+const pullRequest = (number: number, state: "open" | "merged" | "closed"): PullRequest => ({
+  number,
+  title: `PR ${number}`,
+  state: state === "open" ? "open" : "closed",
+  created_at: new Date(Date.UTC(2024, 1, number)).toISOString(),
+  updated_at: new Date(Date.UTC(2024, 1, number + 1)).toISOString(),
+  closed_at: state === "open" ? null : new Date(Date.UTC(2024, 1, number + 2)).toISOString(),
+  merged_at: state === "merged" ? new Date(Date.UTC(2024, 1, number + 2)).toISOString() : null,
+  user,
+  html_url: `https://github.com/facebook/react/pull/${number}`,
+});
+
+const baseInput: AnalyticsInput = {
+  openIssuesCount: 12,
+  openPullRequestsCount: null,
+  issues: null,
+  pullRequests: null,
+  commitActivity: [
+    { week: 1714867200, days: [0, 1, 2, 3, 0, 0, 0], total: 6 },
+    { week: 1715472000, days: [1, 0, 0, 0, 0, 0, 4], total: 5 },
+  ],
+  codeFrequency: [{ week: 1715472000, additions: 120, deletions: -40 }],
+  docResults: null,
+};
+
+// Runs the real worker module in-process; messages are copied both ways, as postMessage does
+class InProcessWorker {
+  static messages: AnalyticsRequest[] = [];
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: ((event: { message: string }) => void) | null = null;
+  private scope = {
+    onmessage: null as ((event: { data: unknown }) => void) | null,
+    postMessage: (data: unknown) => setTimeout(() => this.onmessage?.({ data: structuredClone(data) })),
+  };
+  private ready = (async () => {
+    vi.stubGlobal("self", this.scope);
+    await import("./analyticsWorker");
+  })();
+
+  postMessage(data: AnalyticsRequest) {
+    InProcessWorker.messages.push(data);
+    this.ready.then(() => this.scope.onmessage({ data: structuredClone(data) }));
+  }
+
+  terminate() {}
+}
+
+// A worker whose script never loads: it takes requests but never answers them
+class UnloadableWorker {
+  static instance: UnloadableWorker;
+  onerror: ((event: { message: string }) => void) | null = null;
+  postMessage = vi.fn();
+  terminate = vi.fn();
+
+  constructor() {
+    UnloadableWorker.instance = this;
+  }
+}
+
+describe("analyticsService", () => {
+  // A fresh service, and worker state, for every test
+  const loadAnalyticsService = async () => (await import("./analyticsService")).analyticsService;
+
+  beforeEach(() => {
+    vi.resetModules();
+    InProcessWorker.messages = [];
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("computes the same bundles in the worker as on the main thread while pages load", async () => {
+    vi.stubGlobal("Worker", InProcessWorker);
+    const analyticsService = await loadAnalyticsService();
+
+    const issuePages = [[issue(1, 3), issue(2, null)], [issue(3, 1), issue(4, 10)]];
+    const pullPages = [[pullRequest(1, "merged"), pullRequest(2, "open")], [pullRequest(3, "closed")]];
+    const inputs: AnalyticsInput[] = [
+      baseInput,
+      { ...baseInput, issues: issuePages[0], pullRequests: pullPages[0] },
+      { ...baseInput, issues: [...issuePages[0], ...issuePages[1]], pullRequests: [...pullPages[0], ...pullPages[1]] },
+      // A reload starts the lists over
+      { ...baseInput, issues: [issue(5, 2)], pullRequests: null },
+    ];
+
+    for (const input of inputs) {
+      expect(await analyticsService.compute(input)).toEqual(computeMetrics(input));
+    }
+
+    // Only the pages added since the previous request crossed over
+    expect(InProcessWorker.messages.map(({ input }) => input.issues)).toEqual([
+      { items: null },
+      { items: issuePages[0] },
+      { appended: issuePages[1] },
+      { items: [issue(5, 2)] },
+    ]);
+  });
+
+  it("computes on the main thread when the worker can't be created", async () => {
+    vi.stubGlobal(
+      "Worker",
+      vi.fn(() => {
+        throw new Error("Workers are disabled");
+      })
+    );
+    const analyticsService = await loadAnalyticsService();
+    const input = { ...baseInput, issues: [issue(1, 3)] };
+
+    await expect(analyticsService.compute(input)).resolves.toEqual(computeMetrics(input));
+  });
+
+  it("answers requests a failed worker still owed on the main thread", async () => {
+    vi.stubGlobal("Worker", UnloadableWorker);
+    const analyticsService = await loadAnalyticsService();
+    const input = { ...baseInput, pullRequests: [pullRequest(1, "merged")] };
+
+    const bundle = analyticsService.compute(input);
+    const worker = UnloadableWorker.instance;
+    worker.onerror({ message: "Failed to load the worker script" });
+    await expect(bundle).resolves.toEqual(computeMetrics(input));
+    expect(worker.terminate).toHaveBeenCalled();
+
+    // Later requests don't try the worker again
+    await expect(analyticsService.compute(baseInput)).resolves.toEqual(computeMetrics(baseInput));
+  });
+});
@@ -0,0 +1,94 @@
+import { AnalyticsInput, AnalyticsRequest, AnalyticsResponse, computeMetrics, ListUpdate, MetricBundle } from "./analytics";
+import { createLogger } from "./logger";
+
+const log = createLogger("analytics");
+
+// Lists grow a page at a time with the earlier items kept in place; only what was added is sent then
+const toListUpdate = <T>(list: T[] | null, sent: T[] | null): ListUpdate<T> =>
+  list && sent && list.length >= sent.length && sent.every((item, i) => list[i] === item)
+    ? { appended: list.slice(sent.length) }
+    : { items: list };
+
+interface PendingRequest {
+  input: AnalyticsInput;
+  resolve: (bundle: MetricBundle) => void;
+  reject: (error: Error) => void;
+}
+
+// Runs computeMetrics in a worker so large issue and pull request lists don't block rendering.
+// Where workers aren't available, or the worker fails to load, bundles are computed on the main thread.
+class AnalyticsService {
+  private worker: Worker | null = null;
+  private unavailable = typeof Worker === "undefined";
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private sent: Pick<AnalyticsInput, "issues" | "pullRequests"> = { issues: null, pullRequests: null };
+
+  compute(input: AnalyticsInput): Promise<MetricBundle> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return Promise.resolve(computeMetrics(input));
+    }
+
+    const id = this.nextId++;
+    const request: AnalyticsRequest = {
+      id,
+      input: {
+        ...input,
+        issues: toListUpdate(input.issues, this.sent.issues),
+        pullRequests: toListUpdate(input.pullRequests, this.sent.pullRequests),
+      },
+    };
+    this.sent = { issues: input.issues, pullRequests: input.pullRequests };
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { input, resolve, reject });
+      worker.postMessage(request);
+    });
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || this.unavailable) return this.worker;
+
+    try {
+      this.worker = new Worker(new URL("./analyticsWorker.ts", import.meta.url), { type: "module" });
+    } catch (error) {
+      this.fallBack(error);
+      return null;
+    }
+    this.worker.onmessage = ({ data }: MessageEvent<AnalyticsResponse>) => this.handleResponse(data);
+    this.worker.onerror = (event) => this.fallBack(event.message);
+    return this.worker;
+  }
+
+  private handleResponse(response: AnalyticsResponse): void {
+    const request = this.pending.get(response.id);
+    if (!request) return;
+    this.pending.delete(response.id);
+
+    if ("error" in response) {
+      request.reject(new Error(response.error));
+    } else {
+      request.resolve(response.bundle);
+    }
+  }
+
+  // The worker couldn't load or crashed: answer what it still owed, and everything after, in place
+  private fallBack(reason: unknown): void {
+    log.warn("Analytics worker unavailable, computing on the main thread", reason);
+    this.worker?.terminate();
+    this.worker = null;
+    this.unavailable = true;
+
+    const owed = [...this.pending.values()];
+    this.pending.clear();
+    owed.forEach(({ input, resolve, reject }) => {
+      try {
+        resolve(computeMetrics(input));
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+}
+
+export const analyticsService = new AnalyticsService();
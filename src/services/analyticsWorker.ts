@@ -0,0 +1,19 @@
+import type { Issue, PullRequest } from "./githubService";
+import { AnalyticsRequest, AnalyticsResponse, applyListUpdate, computeMetrics } from "./analytics";
+
+// Lists from earlier requests; later ones only send what was added
+let issues: Issue[] | null = null;
+let pullRequests: PullRequest[] | null = null;
+
+// Computes metric bundles off the main thread; see analyticsService
+self.onmessage = ({ data }: MessageEvent<AnalyticsRequest>) => {
+  let response: AnalyticsResponse;
+  try {
+    issues = applyListUpdate(issues, data.input.issues);
+    pullRequests = applyListUpdate(pullRequests, data.input.pullRequests);
+    response = { id: data.id, bundle: computeMetrics({ ...data.input, issues, pullRequests }) };
+  } catch (error) {
+    response = { id: data.id, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+};
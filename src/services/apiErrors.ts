@@ -0,0 +1,125 @@
+// Typed failures thrown by every fetcher, so widgets can tell "no data" from "forbidden" from "rate-limited"
+export type ApiErrorKind = "not-found" | "rate-limited" | "unauthorized" | "network" | "server";
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status: number | null;
+  readonly url: string | null;
+
+  constructor(kind: ApiErrorKind, message: string, status: number | null = null, url: string | null = null) {
+    super(message);
+    this.name = new.target.name;
+    this.kind = kind;
+    this.status = status;
+    this.url = url;
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(url: string | null = null) {
+    super("not-found", "Not found", 404, url);
+  }
+}
+
+export class RateLimitedError extends ApiError {
+  readonly resetAt: number | null; // Epoch milliseconds when requests are allowed again
+
+  constructor(resetAt: number | null, status = 403, url: string | null = null) {
+    super("rate-limited", "Rate limit exceeded", status, url);
+    this.resetAt = resetAt;
+  }
+}
+
+// 401, or a 403 that isn't about the rate limit
+export class UnauthorizedError extends ApiError {
+  constructor(status = 401, url: string | null = null) {
+    super("unauthorized", status === 403 ? "Access denied" : "Authentication required", status, url);
+  }
+}
+
+// The request never got a response, e.g. offline or blocked by CORS
+export class NetworkError extends ApiError {
+  constructor(url: string | null = null, cause?: unknown) {
+    super("network", cause instanceof Error ? cause.message : "Network request failed", null, url);
+  }
+}
+
+// 5xx or any other unexpected response
+export class ServerError extends ApiError {
+  constructor(status: number | null, url: string | null = null, message = `HTTP error! Status: ${status}`) {
+    super("server", message, status, url);
+  }
+}
+
+// A /stats endpoint answered 202 because the statistics are still being computed. Not an ApiError:
+// the caller polls until they are ready instead of showing a failure.
+export class StatsPendingError extends Error {
+  readonly url: string;
+
+  constructor(url: string) {
+    super("Statistics are still being computed");
+    this.name = "StatsPendingError";
+    this.url = url;
+  }
+}
+
+// Seconds-based reset headers used by GitHub, GitLab and others
+const getResetTime = (headers: Headers): number | null => {
+  const reset = headers.get('X-RateLimit-Reset') || headers.get('RateLimit-Reset');
+  if (reset) {
+    return parseInt(reset) * 1000;
+  }
+  const retryAfter = headers.get('Retry-After');
+  return retryAfter ? Date.now() + parseInt(retryAfter) * 1000 : null;
+};
+
+export const isRateLimitResponse = (response: Response): boolean =>
+  response.status === 429 ||
+  (response.status === 403 &&
+    (response.headers.get('X-RateLimit-Remaining') === '0' || response.headers.get('RateLimit-Remaining') === '0'));
+
+// Classify a failed response
+export const errorFromResponse = (response: Response, url: string | null = response.url): ApiError => {
+  if (isRateLimitResponse(response)) {
+    return new RateLimitedError(getResetTime(response.headers), response.status, url);
+  }
+  if (response.status === 404) {
+    return new NotFoundError(url);
+  }
+  if (response.status === 401 || response.status === 403) {
+    return new UnauthorizedError(response.status, url);
+  }
+  return new ServerError(response.status, url);
+};
+
+// Cancelled requests reject with the same AbortError fetch throws; they are never shown as failures
+export const createAbortError = () => new DOMException("The request was aborted", "AbortError");
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === "AbortError";
+
+// Anything a fetcher threw, as an ApiError
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  return new ServerError(null, null, error instanceof Error ? error.message : String(error));
+};
+
+// One-line explanation of what went wrong and what the user can do about it
+export const describeApiError = (error: ApiError): string => {
+  switch (error.kind) {
+    case "not-found":
+      return "Not found or not public";
+    case "rate-limited":
+      return error instanceof RateLimitedError && error.resetAt
+        ? `Rate limit reached, resets at ${new Date(error.resetAt).toLocaleTimeString()}`
+        : "Rate limit reached, try again later";
+    case "unauthorized":
+      return error.status === 403 ? "Access denied for the current token" : "Authentication required, add a token";
+    case "network":
+      return "Network error, check your connection";
+    default:
+      return error.message;
+  }
+};
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { IDBFactory } from "fake-indexeddb";
+import { CACHE_STORE } from "./database";
+import { buildCacheKey } from "./hostService";
+
+// 100 bytes once serialized
+const PAYLOAD = "x".repeat(98);
+const MINUTE = 60 * 1000;
+
+describe("cacheService", () => {
+  let now = 0;
+
+  // A fresh service and database for every test
+  const loadCacheService = async () => (await import("./cacheService")).cacheService;
+
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    now = 0;
+    vi.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    localStorage.clear();
+  });
+
+  it("evicts the least recently used entries past the quota", async () => {
+    const cacheService = await loadCacheService();
+    await cacheService.set("a", PAYLOAD);
+    now = 1;
+    await cacheService.set("b", PAYLOAD);
+    now = 2;
+    await cacheService.set("c", PAYLOAD);
+
+    // Reading "a" makes "b" the least recently used
+    now = 2 * MINUTE;
+    expect(await cacheService.get("a")).toBe(PAYLOAD);
+
+    await cacheService.setQuota(250);
+    const { entries, size } = await cacheService.getStats();
+    expect(entries.map((entry) => entry.key).sort()).toEqual(["a", "c"]);
+    expect(size).toBe(200);
+  });
+
+  it("stamps reads without writing the entry again", async () => {
+    const cacheService = await loadCacheService();
+    await cacheService.set("a", PAYLOAD);
+    const put = vi.spyOn(IDBObjectStore.prototype, "put");
+
+    now = 2 * MINUTE;
+    await cacheService.get("a");
+    await cacheService.getEntry("a");
+    const { repos } = await cacheService.getStats();
+
+    expect(put.mock.contexts.map((store: IDBObjectStore) => store.name)).not.toContain(CACHE_STORE);
+    expect(put).toHaveBeenCalledTimes(1);
+    expect(repos[0].lastAccess).toBe(2 * MINUTE);
+  });
+
+  it.each([
+    [buildCacheKey("issues", "github.com", "facebook/react", "all"), 5 * MINUTE],
+    [buildCacheKey("gitlab-merge-requests", "gitlab.com", "group/project"), 5 * MINUTE],
+    [buildCacheKey("gitea-releases", "codeberg.org", "forgejo/forgejo", 10), 6 * 60 * MINUTE],
+    [buildCacheKey("bitbucket-browse", "localhost:7990", "PROJ/repo", "/"), 24 * 60 * MINUTE],
+    [buildCacheKey("graphql", "github.com", "facebook/react", "pulls", "page", 2), 5 * MINUTE],
+    [buildCacheKey("contributors", "github.com", "facebook/react"), 15 * MINUTE],
+  ])("applies the policy of the resource behind %s", async (key, ttl) => {
+    const cacheService = await loadCacheService();
+    expect(cacheService.getTtl(key)).toBe(ttl);
+  });
+
+  it("reads policies saved by key prefix", async () => {
+    localStorage.setItem("gitalytics-cache-ttl", JSON.stringify({ "issues:": null }));
+    const cacheService = await loadCacheService();
+    expect(cacheService.getTtl(buildCacheKey("gitlab-issues", "gitlab.com", "group/project"))).toBeNull();
+  });
+});
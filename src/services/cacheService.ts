@@ -1,49 +1,144 @@
 import { toast } from "sonner";
-
-const DB_NAME = 'gitalytics';
-const DB_VERSION = 1;
-const CACHE_STORE = 'apiCache';
-const CACHE_DURATION = 15 * 60 * 1000; // 15 minutes in milliseconds
-
-interface CacheEntry {
+import { CACHE_ACCESS_STORE, CACHE_STORE, openDatabase } from "./database";
+import { cacheRepoId, parseCacheKey, repoCacheId } from "./hostService";
+import { createLogger } from "./logger";
+
+const TTL_POLICIES_STORAGE_KEY = "gitalytics-cache-ttl";
+const QUOTA_STORAGE_KEY = "gitalytics-cache-quota";
+
+export const DEFAULT_CACHE_QUOTA = 50 * 1024 * 1024; // 50 MB
+const SWEEP_TARGET = 0.9; // Evict down to this share of the quota so the next writes don't trigger another sweep
+const SWEEP_DELAY = 5000; // Batch the sweeps for a burst of writes
+const ACCESS_RESOLUTION = 60 * 1000; // Reads within a minute of the last recorded access aren't written back
+
+const log = createLogger("cache");
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Time to live in milliseconds; null never expires
+export type CacheTtl = number | null;
+
+// TTL per cached resource, e.g. "issues"; "" covers everything else
+export const DEFAULT_TTL_POLICIES: Record<string, CacheTtl> = {
+  "": 15 * MINUTE,
+  repo: 15 * MINUTE,
+  issues: 5 * MINUTE,
+  pulls: 5 * MINUTE,
+  releases: 6 * HOUR,
+  doc: 24 * HOUR,
+  "commit-activity": HOUR,
+};
+
+// Forges cache under their own resource names; these follow the policy of the GitHub resource they stand in for
+const RESOURCE_POLICIES: Record<string, string> = {
+  project: "repo",
+  "merge-requests": "pulls",
+  "open-mr-count": "pulls",
+  "open-pulls-count": "pulls",
+  pullrequests: "pulls",
+  "pull-requests": "pulls",
+  tags: "releases",
+  contents: "doc",
+  tree: "doc",
+  src: "doc",
+  browse: "doc",
+  commits: "commit-activity",
+};
+
+// Policy a cache key falls under: its resource without the forge prefix, or for GraphQL pages what they list
+const policyName = (key: string): string => {
+  const { resource, rest } = parseCacheKey(key);
+  const name = resource === "graphql" ? rest.split(":")[0] : resource.replace(/^(gitlab|gitea|bitbucket)-/, "");
+  return RESOURCE_POLICIES[name] ?? name;
+};
+
+export interface CacheEntry {
   key: string;
   data: any;
   timestamp: number;
+  etag?: string; // Validators used to revalidate the entry once it expires
+  lastModified?: string;
+  ttl?: CacheTtl; // Set by the caller; overrides the policy for the key's resource
+  size?: number; // Bytes of serialized data
+  repo?: string; // repoCacheId of the key, for the by-repo index
+  importedAt?: number; // Set on entries restored from a snapshot file; they never expire
+}
+
+// Cache usage of one repository on one host
+export interface RepoCacheUsage {
+  host: string;
+  repo: string;
+  count: number;
+  size: number;
+  lastAccess: number;
+}
+
+export interface CacheStats {
+  count: number;
+  size: number;
+  quota: number;
+  entries: CacheEntry[];
+  repos: RepoCacheUsage[]; // Largest first
+}
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Entries written before sizes were recorded are measured on demand
+export const entrySize = (entry: CacheEntry): number => entry.size ?? new Blob([JSON.stringify(entry.data)]).size;
+
+// Size and last read or write of an entry, for LRU eviction. Kept apart from the entry so reads can
+// stamp it and sweeps can add it up without loading or rewriting the data.
+interface CacheAccess {
+  key: string;
+  size: number;
+  lastAccess: number;
+}
+
+export interface CacheValidators {
+  etag?: string | null;
+  lastModified?: string | null;
 }
 
 class CacheService {
   private db: IDBDatabase | null = null;
-  private debug: boolean = true; // Enable debug logging
+  private ttlPolicies: Record<string, CacheTtl> = this.readTtlPolicies();
+  private quota: number = Number(localStorage.getItem(QUOTA_STORAGE_KEY)) || DEFAULT_CACHE_QUOTA;
+  private sweepTimer: ReturnType<typeof setTimeout> | null = null;
+  private opening: Promise<void> | null = null;
 
+  // Concurrent callers share one open request. When it fails everything runs uncached and saves
+  // nothing; the next call tries again, since most failures are temporary.
   async init(): Promise<void> {
     if (this.db) return;
 
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-      request.onerror = () => {
-        console.error("Failed to open IndexedDB");
-        reject(request.error);
-      };
-
-      request.onsuccess = () => {
-        this.db = request.result;
-        if (this.debug) {
-          console.log("✅ IndexedDB connected successfully");
-        }
-        resolve();
-      };
+    if (!this.opening) {
+      this.opening = openDatabase(() => {
+        this.db = null; // Reopened on next use
+      })
+        .then((db) => {
+          this.db = db;
+          log.debug("IndexedDB connected");
+          this.scheduleSweep(); // Earlier sessions may have left the store over the quota
+        })
+        .catch((error) => {
+          log.error("Failed to open IndexedDB", error);
+        })
+        .finally(() => {
+          this.opening = null;
+        });
+    }
+    return this.opening;
+  }
 
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        if (!db.objectStoreNames.contains(CACHE_STORE)) {
-          db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
-          if (this.debug) {
-            console.log("📦 Cache store created");
-          }
-        }
-      };
-    });
+  // Shared connection for other stores in the gitalytics database
+  async getDatabase(): Promise<IDBDatabase | null> {
+    await this.init();
+    return this.db;
   }
 
   async get(key: string): Promise<any | null> {
@@ -58,61 +153,211 @@ class CacheService {
       request.onsuccess = () => {
         const entry = request.result as CacheEntry;
         if (!entry) {
-          if (this.debug) {
-            console.log(`🔍 Cache miss for key: ${key}`);
-          }
+          log.debug("Miss", { key });
           resolve(null);
           return;
         }
 
         // Check if cache is expired
-        if (Date.now() - entry.timestamp > CACHE_DURATION) {
-          if (this.debug) {
-            console.log(`⏰ Cache expired for key: ${key}`);
-          }
-          this.delete(key); // Clean up expired entry
+        if (this.isExpired(entry)) {
+          log.debug("Expired", { key });
+          // Expired entries stay around: they can be revalidated, or served while offline
           resolve(null);
           return;
         }
 
-        if (this.debug) {
-          console.log(`✨ Cache hit for key: ${key}`);
-          console.log(`📅 Cached at: ${new Date(entry.timestamp).toLocaleString()}`);
-          console.log(`⏳ Time until expiry: ${Math.round((CACHE_DURATION - (Date.now() - entry.timestamp)) / 1000)}s`);
-        }
+        this.recordAccess(key);
+        log.debug("Hit", {
+          key,
+          cachedAt: new Date(entry.timestamp).toISOString(),
+          expires: this.describeExpiry(entry),
+        });
 
         resolve(entry.data);
       };
 
       request.onerror = () => {
-        console.error("Error reading from cache:", request.error);
+        log.error("Error reading from cache", request.error);
         resolve(null);
       };
     });
   }
 
-  async set(key: string, data: any): Promise<void> {
+  // Get the raw entry, expired or not, so callers can revalidate it
+  async getEntry(key: string): Promise<CacheEntry | null> {
     await this.init();
+    if (!this.db) return null;
+
+    return new Promise((resolve) => {
+      const transaction = this.db!.transaction([CACHE_STORE], 'readonly');
+      const store = transaction.objectStore(CACHE_STORE);
+      const request = store.get(key);
+
+      request.onsuccess = () => {
+        const entry = (request.result as CacheEntry) || null;
+        if (entry) {
+          this.recordAccess(key);
+        }
+        resolve(entry);
+      };
+
+      request.onerror = () => {
+        log.error("Error reading from cache", request.error);
+        resolve(null);
+      };
+    });
+  }
+
+  // Stamp a read on the entry's access record; best effort, since it only orders evictions
+  private recordAccess(key: string): void {
     if (!this.db) return;
 
+    const now = Date.now();
+    const transaction = this.db.transaction([CACHE_ACCESS_STORE], 'readwrite');
+    const store = transaction.objectStore(CACHE_ACCESS_STORE);
+    const request = store.get(key);
+    request.onsuccess = () => {
+      const access = request.result as CacheAccess | undefined;
+      if (access && now - access.lastAccess >= ACCESS_RESOLUTION) {
+        store.put({ ...access, lastAccess: now });
+      }
+    };
+    transaction.onerror = () => log.error("Error recording cache access", transaction.error);
+  }
+
+  isExpired(entry: CacheEntry): boolean {
+    const ttl = this.getEntryTtl(entry);
+    return ttl !== null && Date.now() - entry.timestamp > ttl;
+  }
+
+  private getEntryTtl(entry: CacheEntry): CacheTtl {
+    return entry.ttl !== undefined ? entry.ttl : this.getTtl(entry.key);
+  }
+
+  // When the entry goes stale; null if it never does
+  getExpiresAt(entry: CacheEntry): number | null {
+    const ttl = this.getEntryTtl(entry);
+    return ttl === null ? null : entry.timestamp + ttl;
+  }
+
+  private describeExpiry(entry: CacheEntry): string {
+    const expiresAt = this.getExpiresAt(entry);
+    return expiresAt === null ? "never" : `${Math.round((expiresAt - Date.now()) / 1000)}s`;
+  }
+
+  // TTL policy for a key, from its resource
+  getTtl(key: string): CacheTtl {
+    const name = policyName(key);
+    return this.ttlPolicies[name in this.ttlPolicies ? name : ""];
+  }
+
+  getTtlPolicies(): Record<string, CacheTtl> {
+    return { ...this.ttlPolicies };
+  }
+
+  // Applies to entries already cached as well, unless their caller set a TTL
+  setTtlPolicy(resource: string, ttl: CacheTtl): void {
+    this.ttlPolicies = { ...this.ttlPolicies, [resource]: ttl };
+    localStorage.setItem(TTL_POLICIES_STORAGE_KEY, JSON.stringify(this.ttlPolicies));
+  }
+
+  resetTtlPolicies(): void {
+    this.ttlPolicies = { ...DEFAULT_TTL_POLICIES };
+    localStorage.removeItem(TTL_POLICIES_STORAGE_KEY);
+  }
+
+  private readTtlPolicies(): Record<string, CacheTtl> {
+    try {
+      const saved: Record<string, CacheTtl> = JSON.parse(localStorage.getItem(TTL_POLICIES_STORAGE_KEY) || "{}");
+      // Older releases saved key prefixes such as "repo:"
+      const byResource = Object.entries(saved).map(([name, ttl]) => [name.replace(/:$/, ""), ttl]);
+      return { ...DEFAULT_TTL_POLICIES, ...Object.fromEntries(byResource) };
+    } catch {
+      return { ...DEFAULT_TTL_POLICIES };
+    }
+  }
+
+  // Build If-None-Match / If-Modified-Since headers from a cached entry
+  getConditionalHeaders(entry: CacheEntry | null): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry?.etag) {
+      headers['If-None-Match'] = entry.etag;
+    }
+    if (entry?.lastModified) {
+      headers['If-Modified-Since'] = entry.lastModified;
+    }
+    return headers;
+  }
+
+  // Write entries as they are, keeping their timestamps; they count as used just now
+  async putEntries(entries: CacheEntry[]): Promise<void> {
+    await this.init();
+    if (!this.db || entries.length === 0) return;
+
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([CACHE_STORE], 'readwrite');
+      const transaction = this.db!.transaction([CACHE_STORE, CACHE_ACCESS_STORE], 'readwrite');
       const store = transaction.objectStore(CACHE_STORE);
-      const request = store.put({
-        key,
-        data,
-        timestamp: Date.now()
+      const access = transaction.objectStore(CACHE_ACCESS_STORE);
+      const now = Date.now();
+      entries.forEach((entry) => {
+        store.put({ ...entry, repo: cacheRepoId(entry.key) });
+        access.put({ key: entry.key, size: entrySize(entry), lastAccess: now });
       });
 
-      request.onsuccess = () => {
-        if (this.debug) {
-          console.log(`💾 Cached data for key: ${key}`);
-          console.log(`📦 Cache size: ${JSON.stringify(data).length} bytes`);
-        }
+      transaction.oncomplete = () => {
+        log.debug("Restored entries", { count: entries.length });
+        this.scheduleSweep();
+        resolve();
+      };
+
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Mark an entry as fresh again after a 304 Not Modified
+  async touch(key: string): Promise<void> {
+    const entry = await this.getEntry(key);
+    if (!entry) return;
+
+    await this.set(key, entry.data, entry, entry.ttl);
+    log.debug("Revalidated", { key });
+  }
+
+  // ttl overrides the key's policy for this entry; leave it out to follow the policy
+  async set(key: string, data: any, validators: CacheValidators = {}, ttl?: CacheTtl): Promise<void> {
+    await this.init();
+    if (!this.db) return;
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([CACHE_STORE, CACHE_ACCESS_STORE], 'readwrite');
+      const store = transaction.objectStore(CACHE_STORE);
+      const now = Date.now();
+      const entry: CacheEntry = {
+        key,
+        data,
+        timestamp: now,
+        repo: cacheRepoId(key),
+        size: new Blob([JSON.stringify(data)]).size
+      };
+      if (validators.etag) {
+        entry.etag = validators.etag;
+      }
+      if (validators.lastModified) {
+        entry.lastModified = validators.lastModified;
+      }
+      if (ttl !== undefined) {
+        entry.ttl = ttl;
+      }
+      store.put(entry);
+      transaction.objectStore(CACHE_ACCESS_STORE).put({ key, size: entry.size, lastAccess: now });
+
+      transaction.oncomplete = () => {
+        log.debug("Stored", { key, size: entry.size });
+        this.scheduleSweep();
         resolve();
       };
 
-      request.onerror = () => reject(request.error);
+      transaction.onerror = () => reject(transaction.error);
     });
   }
 
@@ -120,20 +365,95 @@ class CacheService {
     await this.init();
     if (!this.db) return;
 
+    return new Promise((resolve) => {
+      const transaction = this.db!.transaction([CACHE_STORE, CACHE_ACCESS_STORE], 'readwrite');
+      transaction.objectStore(CACHE_STORE).delete(key);
+      transaction.objectStore(CACHE_ACCESS_STORE).delete(key);
+
+      transaction.oncomplete = () => {
+        log.debug("Deleted", { key });
+        resolve();
+      };
+
+      transaction.onerror = () => {
+        log.error("Error deleting from cache", transaction.error);
+        resolve();
+      };
+    });
+  }
+
+  async deleteMany(keys: string[]): Promise<void> {
+    await this.init();
+    if (!this.db || keys.length === 0) return;
+
+    return new Promise((resolve) => {
+      const transaction = this.db!.transaction([CACHE_STORE, CACHE_ACCESS_STORE], 'readwrite');
+      const store = transaction.objectStore(CACHE_STORE);
+      const access = transaction.objectStore(CACHE_ACCESS_STORE);
+      keys.forEach((key) => {
+        store.delete(key);
+        access.delete(key);
+      });
+
+      transaction.oncomplete = () => {
+        log.debug("Deleted entries", { count: keys.length });
+        resolve();
+      };
+
+      transaction.onerror = () => {
+        log.error("Error deleting from cache", transaction.error);
+        resolve();
+      };
+    });
+  }
+
+  // Drop everything cached for one repository on one host; resolves to the number of entries deleted
+  async deleteRepo(host: string, repo: string): Promise<number> {
+    await this.init();
+    if (!this.db) return 0;
+
+    const keys = await new Promise<string[]>((resolve) => {
+      const transaction = this.db!.transaction([CACHE_STORE], 'readonly');
+      const request = transaction.objectStore(CACHE_STORE).index('by-repo').getAllKeys(repoCacheId(host, repo));
+      request.onsuccess = () => resolve(request.result as string[]);
+      request.onerror = () => {
+        log.error("Error reading cache entries", request.error);
+        resolve([]);
+      };
+    });
+    await this.deleteMany(keys);
+    return keys.length;
+  }
+
+  // Drop every entry restored from a snapshot file; resolves to the number deleted
+  async deleteImported(): Promise<number> {
+    const keys = (await this.getAllEntries()).filter((entry) => entry.importedAt).map((entry) => entry.key);
+    await this.deleteMany(keys);
+    return keys.length;
+  }
+
+  // Make the next request for this key go to the network. The validators go too, so a bad response
+  // isn't kept alive by a 304; the data stays as the offline fallback until it is replaced.
+  async expire(key: string): Promise<void> {
+    const entry = await this.getEntry(key);
+    if (!entry) return;
+
     return new Promise((resolve) => {
       const transaction = this.db!.transaction([CACHE_STORE], 'readwrite');
       const store = transaction.objectStore(CACHE_STORE);
-      const request = store.delete(key);
+      // A zero TTL expires it whatever its policy, and keeps its timestamp for "as of" badges
+      const expired: CacheEntry = { ...entry, ttl: 0 };
+      delete expired.etag;
+      delete expired.lastModified;
+      const request = store.put(expired);
 
       request.onsuccess = () => {
-        if (this.debug) {
-          console.log(`🗑️ Deleted cache for key: ${key}`);
-        }
+        log.debug("Marked expired", { key });
         resolve();
       };
 
       request.onerror = () => {
-        console.error("Error deleting from cache:", request.error);
+        log.error("Error expiring cache entry", request.error);
         resolve();
       };
     });
@@ -144,8 +464,9 @@ class CacheService {
     if (!this.db) return;
 
     return new Promise((resolve) => {
-      const transaction = this.db!.transaction([CACHE_STORE], 'readwrite');
+      const transaction = this.db!.transaction([CACHE_STORE, CACHE_ACCESS_STORE], 'readwrite');
       const store = transaction.objectStore(CACHE_STORE);
+      transaction.objectStore(CACHE_ACCESS_STORE).clear();
 
       // Get count before clearing
       const countRequest = store.count();
@@ -155,15 +476,13 @@ class CacheService {
         // Clear the store
         const clearRequest = store.clear();
         clearRequest.onsuccess = () => {
-          if (this.debug) {
-            console.log(`🧹 Cleared ${count} items from cache`);
-          }
+          log.debug("Cleared", { count });
           toast.success(`Cleared ${count} cached items successfully`);
           resolve();
         };
 
         clearRequest.onerror = () => {
-          console.error("Error clearing cache:", clearRequest.error);
+          log.error("Error clearing cache", clearRequest.error);
           toast.error("Failed to clear cache");
           resolve();
         };
@@ -171,45 +490,108 @@ class CacheService {
     });
   }
 
-  // New method to get cache statistics
-  async getStats(): Promise<{ count: number; size: number; entries: CacheEntry[] }> {
+  getQuota(): number {
+    return this.quota;
+  }
+
+  // Takes effect right away: entries over the new quota are evicted
+  async setQuota(bytes: number): Promise<void> {
+    this.quota = bytes;
+    localStorage.setItem(QUOTA_STORAGE_KEY, String(bytes));
+    await this.sweep();
+  }
+
+  private scheduleSweep(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setTimeout(() => {
+      this.sweepTimer = null;
+      this.sweep();
+    }, SWEEP_DELAY);
+  }
+
+  // Evict least recently used entries once the store outgrows the quota; resolves to the number evicted
+  async sweep(): Promise<number> {
+    const records = await this.getAccessRecords();
+    let size = records.reduce((total, record) => total + record.size, 0);
+    if (size <= this.quota) return 0;
+
+    const target = this.quota * SWEEP_TARGET;
+    const evicted: string[] = [];
+    for (const record of records) {
+      if (size <= target) break;
+      evicted.push(record.key);
+      size -= record.size;
+    }
+
+    await this.deleteMany(evicted);
+    log.debug("Evicted least recently used entries", { count: evicted.length, remaining: size });
+    return evicted.length;
+  }
+
+  // Access records of every entry, least recently used first
+  private async getAccessRecords(): Promise<CacheAccess[]> {
     await this.init();
-    if (!this.db) return { count: 0, size: 0, entries: [] };
+    if (!this.db) return [];
+
+    return new Promise((resolve) => {
+      const transaction = this.db!.transaction([CACHE_ACCESS_STORE], 'readonly');
+      const request = transaction.objectStore(CACHE_ACCESS_STORE).index('by-access').getAll();
+
+      request.onsuccess = () => resolve(request.result as CacheAccess[]);
+
+      request.onerror = () => {
+        log.error("Error reading cache access times", request.error);
+        resolve([]);
+      };
+    });
+  }
+
+  async getAllEntries(): Promise<CacheEntry[]> {
+    await this.init();
+    if (!this.db) return [];
 
     return new Promise((resolve) => {
       const transaction = this.db!.transaction([CACHE_STORE], 'readonly');
       const store = transaction.objectStore(CACHE_STORE);
       const request = store.getAll();
 
-      request.onsuccess = () => {
-        const entries = request.result as CacheEntry[];
-        const stats = {
-          count: entries.length,
-          size: new Blob([JSON.stringify(entries)]).size,
-          entries
-        };
-
-        if (this.debug) {
-          console.log('📊 Cache Statistics:', {
-            count: stats.count,
-            size: `${Math.round(stats.size / 1024)} KB`,
-            entries: entries.map(e => ({
-              key: e.key,
-              age: Math.round((Date.now() - e.timestamp) / 1000) + 's',
-              expires: Math.round((CACHE_DURATION - (Date.now() - e.timestamp)) / 1000) + 's'
-            }))
-          });
-        }
-
-        resolve(stats);
-      };
+      request.onsuccess = () => resolve(request.result as CacheEntry[]);
 
       request.onerror = () => {
-        console.error("Error getting cache stats:", request.error);
-        resolve({ count: 0, size: 0, entries: [] });
+        log.error("Error reading cache entries", request.error);
+        resolve([]);
       };
     });
   }
+
+  // Cache statistics, with usage per repository
+  async getStats(): Promise<CacheStats> {
+    const [entries, records] = await Promise.all([this.getAllEntries(), this.getAccessRecords()]);
+    const lastAccess = new Map(records.map((record) => [record.key, record.lastAccess]));
+
+    const repos = new Map<string, RepoCacheUsage>();
+    entries.forEach((entry) => {
+      const { host, repo } = parseCacheKey(entry.key);
+      const id = repoCacheId(host, repo);
+      const usage = repos.get(id) || { host, repo, count: 0, size: 0, lastAccess: 0 };
+      usage.count++;
+      usage.size += entrySize(entry);
+      usage.lastAccess = Math.max(usage.lastAccess, lastAccess.get(entry.key) ?? entry.timestamp);
+      repos.set(id, usage);
+    });
+
+    const stats: CacheStats = {
+      count: entries.length,
+      size: entries.reduce((total, entry) => total + entrySize(entry), 0),
+      quota: this.quota,
+      entries,
+      repos: [...repos.values()].sort((a, b) => b.size - a.size),
+    };
+
+    log.debug("Statistics", { count: stats.count, size: stats.size, quota: stats.quota });
+
+    return stats;
+  }
 }
 
 export const cacheService = new CacheService();
\ No newline at end of file
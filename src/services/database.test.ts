@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { IDBFactory } from "fake-indexeddb";
+import {
+  CACHE_ACCESS_STORE,
+  CACHE_STORE,
+  DB_VERSION,
+  METRICS_STORE,
+  MIGRATIONS,
+  openDatabase,
+  TOKEN_STORE,
+} from "./database";
+import { buildCacheKey, repoCacheId } from "./hostService";
+
+const DB_NAME = "gitalytics";
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+// A database as an older release left it, with one saved token and the given cache entries
+const createDatabase = async (version: number, stores: string[], entries: object[] = []) => {
+  const open = indexedDB.open(DB_NAME, version);
+  open.onupgradeneeded = () => {
+    stores.forEach((name) => open.result.createObjectStore(name, { keyPath: name === TOKEN_STORE ? "id" : "key" }));
+  };
+  const db = await request(open);
+  if (stores.includes(TOKEN_STORE)) {
+    const transaction = db.transaction(TOKEN_STORE, "readwrite");
+    transaction.objectStore(TOKEN_STORE).put({ id: "saved", token: "ghp_saved" });
+    await new Promise((resolve) => (transaction.oncomplete = resolve));
+  }
+  if (entries.length > 0) {
+    const transaction = db.transaction(CACHE_STORE, "readwrite");
+    entries.forEach((entry) => transaction.objectStore(CACHE_STORE).put(entry));
+    await new Promise((resolve) => (transaction.oncomplete = resolve));
+  }
+  db.close();
+};
+
+// Open without a version, so nothing is upgraded
+const readBack = async () => {
+  const db = await request(indexedDB.open(DB_NAME));
+  const tokens = db.objectStoreNames.contains(TOKEN_STORE)
+    ? await request(db.transaction(TOKEN_STORE).objectStore(TOKEN_STORE).getAll())
+    : [];
+  const result = { version: db.version, stores: [...db.objectStoreNames], tokens };
+  db.close();
+  return result;
+};
+
+describe("openDatabase", () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("creates every store on a fresh install", async () => {
+    const db = await openDatabase(() => {});
+    expect(db.version).toBe(DB_VERSION);
+    expect([...db.objectStoreNames]).toEqual(expect.arrayContaining([CACHE_STORE, TOKEN_STORE, METRICS_STORE]));
+    db.close();
+  });
+
+  it("upgrades an older database and keeps its data", async () => {
+    await createDatabase(3, [CACHE_STORE, TOKEN_STORE, METRICS_STORE]);
+
+    const db = await openDatabase(() => {});
+    expect(db.version).toBe(DB_VERSION);
+    db.close();
+
+    expect((await readBack()).tokens).toEqual([{ id: "saved", token: "ghp_saved" }]);
+  });
+
+  it("re-keys entries cached under a host with a port", async () => {
+    await createDatabase(3, [CACHE_STORE, TOKEN_STORE, METRICS_STORE], [
+      { key: "bitbucket-repo:localhost:7990:PROJ/repo", data: { name: "repo" }, timestamp: 1 },
+      { key: "issues:github.com:facebook/react:all", data: [], timestamp: 2 },
+    ]);
+
+    const db = await openDatabase(() => {});
+    const entries = await request(db.transaction(CACHE_STORE).objectStore(CACHE_STORE).getAll());
+    db.close();
+
+    expect(entries).toEqual(
+      expect.arrayContaining([
+        {
+          key: buildCacheKey("bitbucket-repo", "localhost:7990", "PROJ/repo"),
+          data: { name: "repo" },
+          timestamp: 1,
+          repo: repoCacheId("localhost:7990", "PROJ/repo"),
+        },
+        { key: "issues:github.com:facebook/react:all", data: [], timestamp: 2, repo: "github.com:facebook/react" },
+      ])
+    );
+    expect(entries).toHaveLength(2);
+  });
+
+  it("records the size and last access of existing entries", async () => {
+    await createDatabase(3, [CACHE_STORE, TOKEN_STORE, METRICS_STORE], [
+      { key: "repo:github.com:facebook/react", data: "x".repeat(98), timestamp: 1, size: 100, lastAccess: 5 },
+      { key: "issues:github.com:facebook/react", data: "x".repeat(48), timestamp: 2 },
+    ]);
+
+    const db = await openDatabase(() => {});
+    const records = await request(db.transaction(CACHE_ACCESS_STORE).objectStore(CACHE_ACCESS_STORE).getAll());
+    db.close();
+
+    expect(records).toEqual([
+      { key: "issues:github.com:facebook/react", size: 50, lastAccess: 2 },
+      { key: "repo:github.com:facebook/react", size: 100, lastAccess: 5 },
+    ]);
+  });
+
+  it("moves keys from before hosts were namespaced under github.com", async () => {
+    await createDatabase(3, [CACHE_STORE, TOKEN_STORE, METRICS_STORE], [
+      { key: "repo:facebook/react", data: { name: "old" }, timestamp: 1 },
+      { key: "contributors:facebook/react:10", data: [], timestamp: 2 },
+      { key: "contributors:github.com:facebook/react:10", data: [{ login: "gaearon" }], timestamp: 3 },
+      { key: "doc:https://raw.githubusercontent.com/facebook/react/main/README.md", data: "# React", timestamp: 4 },
+    ]);
+
+    const db = await openDatabase(() => {});
+    const transaction = db.transaction([CACHE_STORE, CACHE_ACCESS_STORE]);
+    const entries = await request(transaction.objectStore(CACHE_STORE).getAll());
+    const records = await request(transaction.objectStore(CACHE_ACCESS_STORE).getAll());
+    db.close();
+
+    // The entry already cached under the new key is kept over the older one
+    expect(entries).toEqual([
+      {
+        key: "contributors:github.com:facebook/react:10",
+        data: [{ login: "gaearon" }],
+        timestamp: 3,
+        repo: "github.com:facebook/react",
+      },
+      { key: "repo:github.com:facebook/react", data: { name: "old" }, timestamp: 1, repo: "github.com:facebook/react" },
+    ]);
+    expect(records.map((record: { key: string }) => record.key)).toEqual(entries.map((entry) => entry.key));
+  });
+
+  it("leaves the old version in place when a migration fails", async () => {
+    await createDatabase(3, [CACHE_STORE, TOKEN_STORE, METRICS_STORE]);
+    const failing = MIGRATIONS.find((migration) => migration.version === 4);
+    vi.spyOn(failing, "migrate").mockImplementation(() => {
+      throw new Error("migration failed");
+    });
+
+    await expect(openDatabase(() => {})).rejects.toMatchObject({ name: "AbortError" });
+
+    const after = await readBack();
+    expect(after.version).toBe(3);
+    expect(after.tokens).toEqual([{ id: "saved", token: "ghp_saved" }]);
+  });
+
+  it("keeps a database from a newer release", async () => {
+    await createDatabase(DB_VERSION + 1, [CACHE_STORE, TOKEN_STORE, METRICS_STORE]);
+
+    await expect(openDatabase(() => {})).rejects.toMatchObject({ name: "VersionError" });
+
+    const after = await readBack();
+    expect(after.version).toBe(DB_VERSION + 1);
+    expect(after.tokens).toHaveLength(1);
+  });
+
+  it("rebuilds a database that lacks declared stores", async () => {
+    await createDatabase(DB_VERSION, [CACHE_STORE]);
+
+    const db = await openDatabase(() => {});
+    expect([...db.objectStoreNames]).toEqual(expect.arrayContaining([CACHE_STORE, TOKEN_STORE, METRICS_STORE]));
+    db.close();
+  });
+});
@@ -0,0 +1,268 @@
+import { toast } from "sonner";
+import { buildCacheKey, cacheRepoId, GITHUB_DOT_COM } from "./hostService";
+import { createLogger } from "./logger";
+
+const log = createLogger("database");
+
+const DB_NAME = 'gitalytics';
+export const CACHE_STORE = 'apiCache';
+export const TOKEN_STORE = 'tokens';
+export const METRICS_STORE = 'metricSnapshots';
+export const CACHE_ACCESS_STORE = 'cacheAccess';
+export const FORGE_TOKEN_STORE = 'forgeTokens';
+
+interface StoreSchema {
+  name: string;
+  keyPath: string | string[];
+}
+
+interface IndexSchema {
+  store: string;
+  name: string;
+  keyPath: string | string[];
+  unique?: boolean;
+}
+
+// One version of the schema. Stores and indexes are created first, then migrate() moves the data.
+export interface Migration {
+  version: number;
+  description: string;
+  stores?: StoreSchema[];
+  indexes?: IndexSchema[];
+  migrate?: (transaction: IDBTransaction) => void;
+}
+
+// Ordered and append-only: every released version may still be on someone's machine.
+// Steps skip stores and indexes that exist, since versions 1-3 were created by hand.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "API response cache",
+    stores: [{ name: CACHE_STORE, keyPath: 'key' }],
+  },
+  {
+    version: 2,
+    description: "Saved tokens",
+    stores: [{ name: TOKEN_STORE, keyPath: 'id' }],
+  },
+  {
+    version: 3,
+    description: "Daily metric snapshots; one record per repository and day, so a history is a key range",
+    stores: [{ name: METRICS_STORE, keyPath: ['repo', 'date'] }],
+  },
+  {
+    version: 4,
+    description: "Cache index by repository",
+    indexes: [{ store: CACHE_STORE, name: 'by-repo', keyPath: 'repo' }],
+    // Entries written before this version have no repo field
+    migrate: (transaction) => {
+      const request = transaction.objectStore(CACHE_STORE).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        cursor.update({ ...cursor.value, repo: cacheRepoId(cursor.value.key) });
+        cursor.continue();
+      };
+    },
+  },
+  {
+    version: 5,
+    description: "Cache keys with the host URI-encoded, so hosts with a port parse",
+    // Before, `bitbucket-repo:localhost:7990:PROJ/repo` read as host "localhost" and repository "7990"
+    migrate: (transaction) => {
+      const store = transaction.objectStore(CACHE_STORE);
+      const request = store.openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const [resource, host, port, repo, ...rest] = cursor.value.key.split(":");
+        if (/^\d+$/.test(port) && repo !== undefined) {
+          const key = buildCacheKey(resource, `${host}:${port}`, repo, ...rest);
+          cursor.delete();
+          store.put({ ...cursor.value, key, repo: cacheRepoId(key) });
+        }
+        cursor.continue();
+      };
+    },
+  },
+  {
+    version: 6,
+    description: "Cache sizes and access times in a store of their own, so eviction never loads the data",
+    stores: [{ name: CACHE_ACCESS_STORE, keyPath: 'key' }],
+    indexes: [{ store: CACHE_ACCESS_STORE, name: 'by-access', keyPath: 'lastAccess' }],
+    migrate: (transaction) => {
+      const access = transaction.objectStore(CACHE_ACCESS_STORE);
+      const request = transaction.objectStore(CACHE_STORE).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const { key, data, size, timestamp, lastAccess } = cursor.value;
+        // Entries written before sizes were recorded are measured this once
+        access.put({ key, size: size ?? new Blob([JSON.stringify(data)]).size, lastAccess: lastAccess ?? timestamp });
+        cursor.continue();
+      };
+    },
+  },
+  {
+    version: 7,
+    description: "Cache keys from before hosts were namespaced, moved under github.com or dropped",
+    // `repo:facebook/react` read as host "facebook/react". Those keys could only come from github.com; the
+    // URL-keyed documentation files (`doc:https://raw...`) have no host or repository to move them to.
+    migrate: (transaction) => {
+      const store = transaction.objectStore(CACHE_STORE);
+      const access = transaction.objectStore(CACHE_ACCESS_STORE);
+      const request = store.openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const oldKey: string = cursor.value.key;
+        const [resource, repo, ...rest] = oldKey.split(":");
+        if (repo?.includes("/")) {
+          cursor.delete();
+          const key = buildCacheKey(resource, GITHUB_DOT_COM.id, repo, ...rest);
+          // add() leaves an entry already cached under the new key alone
+          const add = store.add({ ...cursor.value, key, repo: cacheRepoId(key) });
+          add.onsuccess = () => {
+            const record = access.get(oldKey);
+            record.onsuccess = () => {
+              if (!record.result) return;
+              access.delete(oldKey);
+              access.put({ ...record.result, key });
+            };
+          };
+          add.onerror = (event) => {
+            event.preventDefault(); // Otherwise the failed add() aborts the upgrade
+            access.delete(oldKey);
+          };
+        } else if (repo === "https" || repo === "http") {
+          cursor.delete();
+          access.delete(oldKey);
+        }
+        cursor.continue();
+      };
+    },
+  },
+  {
+    version: 8,
+    description: "Tokens for GitLab, Gitea and Bitbucket hosts, one per host",
+    stores: [{ name: FORGE_TOKEN_STORE, keyPath: 'host' }],
+  },
+];
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const applyMigration = (db: IDBDatabase, transaction: IDBTransaction, migration: Migration) => {
+  migration.stores?.forEach(({ name, keyPath }) => {
+    if (!db.objectStoreNames.contains(name)) {
+      db.createObjectStore(name, { keyPath });
+    }
+  });
+  migration.indexes?.forEach(({ store, name, keyPath, unique = false }) => {
+    const objectStore = transaction.objectStore(store);
+    if (!objectStore.indexNames.contains(name)) {
+      objectStore.createIndex(name, keyPath, { unique });
+    }
+  });
+  migration.migrate?.(transaction);
+  log.info(`Migrated to version ${migration.version}: ${migration.description}`);
+};
+
+// The database claims the current version but lacks stores or indexes it declares: the only state
+// known to be damaged for good, and the only one that is rebuilt
+class IncompleteDatabaseError extends Error {
+  constructor() {
+    super("The database is missing stores or indexes");
+    this.name = "IncompleteDatabaseError";
+  }
+}
+
+// Every store and index the migrations declare
+const isComplete = (db: IDBDatabase) => {
+  const stores = MIGRATIONS.flatMap((migration) => migration.stores ?? []);
+  const indexes = MIGRATIONS.flatMap((migration) => migration.indexes ?? []);
+  if (!stores.every(({ name }) => db.objectStoreNames.contains(name))) {
+    return false;
+  }
+  const transaction = db.transaction(stores.map(({ name }) => name), 'readonly');
+  return indexes.every(({ store, name }) => transaction.objectStore(store).indexNames.contains(name));
+};
+
+// Other tabs keep the database open; upgrading or deleting it waits until they let go
+const warnBlocked = () =>
+  toast.warning("Close other Gitalytics tabs to finish updating the local database", { id: "database-blocked" });
+
+const open = (onVersionChange: () => void) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const transaction = request.transaction!;
+      try {
+        MIGRATIONS
+          .filter((migration) => migration.version > event.oldVersion)
+          .forEach((migration) => applyMigration(request.result, transaction, migration));
+      } catch (error) {
+        log.error("Database migration failed", error);
+        transaction.abort(); // Fails the open with an AbortError, leaving the old version untouched
+      }
+    };
+
+    request.onblocked = warnBlocked;
+
+    request.onsuccess = () => {
+      const db = request.result;
+      if (!isComplete(db)) {
+        db.close();
+        reject(new IncompleteDatabaseError());
+        return;
+      }
+      // A newer tab upgrading, or another tab rebuilding: let go so it isn't blocked
+      db.onversionchange = () => {
+        db.close();
+        onVersionChange();
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => reject(request.error);
+  });
+
+const deleteDatabase = () =>
+  new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    request.onblocked = warnBlocked;
+  });
+
+// Open the database, migrating it to DB_VERSION. Only a database missing declared stores or indexes is
+// deleted and built again, once; every other failure is passed on with the data left in place, since
+// it may go away by itself (storage full, private browsing) or, for a failed migration, leave the old
+// version intact. onVersionChange runs when another tab takes the database over; the connection is
+// closed by then.
+export const openDatabase = async (onVersionChange: () => void): Promise<IDBDatabase> => {
+  try {
+    return await open(onVersionChange);
+  } catch (error) {
+    if (!(error instanceof IncompleteDatabaseError)) {
+      // Another tab already runs a newer version
+      if (error instanceof DOMException && error.name === "VersionError") {
+        toast.error("Gitalytics was updated in another tab. Reload this tab to continue.", { id: "database-version" });
+      } else if (error instanceof DOMException && error.name === "AbortError") {
+        toast.error("The local database couldn't be updated. Your data was kept; reload to try again.", {
+          id: "database-migration",
+        });
+      } else {
+        toast.error("The local database couldn't be opened. Nothing is cached or saved until it can be.", {
+          id: "database-error",
+        });
+      }
+      throw error;
+    }
+    log.error("IndexedDB is incomplete, rebuilding it", error);
+    await deleteDatabase();
+    const db = await open(onVersionChange);
+    toast.warning("The local database was damaged and has been rebuilt. Cached data and saved tokens were cleared.");
+    return db;
+  }
+};
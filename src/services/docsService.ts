@@ -1,5 +1,10 @@
-import { toast } from "sonner";
 import { cacheService } from "./cacheService";
+import { delay, fetchWithCache } from "./httpClient";
+import { githubRequest } from "./githubRequest";
+import { NotFoundError } from "./apiErrors";
+import { hostCacheKey, hostService } from "./hostService";
+
+export { calculateDocScore } from "./analytics";
 
 // Documentation file types to check for
 export interface DocFile {
@@ -90,125 +95,82 @@ export const documentationFiles: DocFile[] = [
   }
 ];
 
-// Get GitHub token from environment variables
-const GITHUB_TOKEN = import.meta.env.VITE_GITHUB_TOKEN;
-
-// Helper function to create fetch options with auth header
-const getFetchOptions = () => {
-  const options: RequestInit = {
-    headers: {
-      'Accept': 'application/vnd.github.v3+json',
-    }
-  };
-
-  if (GITHUB_TOKEN) {
-    options.headers = {
-      ...options.headers,
-      'Authorization': `token ${GITHUB_TOKEN}`
-    };
-  }
-
-  return options;
-};
-
-// Helper function to fetch with cache and handle 404s
-const fetchDocFile = async (baseUrl: string, path: string): Promise<any> => {
-  const cacheKey = `doc:${baseUrl}/${path}`;
-  
-  // Try to get from cache first, including 404 responses
-  const cachedData = await cacheService.get(cacheKey);
-  if (cachedData) {
-    // If we cached a 404, return null
-    if (cachedData.status === 404) {
-      return null;
-    }
-    return cachedData;
-  }
-
+// Fetch a documentation file's metadata; null when it doesn't exist
+const fetchDocFile = async (
+  repoFullName: string,
+  path: string,
+  signal?: AbortSignal
+): Promise<{ html_url?: string } | null> => {
   try {
-    const response = await fetch(`${baseUrl}/${path}`, getFetchOptions());
-    
-    // Handle 404s - cache them too
-    if (response.status === 404) {
-      await cacheService.set(cacheKey, { status: 404, path });
-      return null;
-    }
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error! Status: ${response.status}`);
-    }
-    
-    const data = await response.json();
-    await cacheService.set(cacheKey, data);
-    return data;
+    return await fetchWithCache(
+      `${hostService.getActiveHost().apiBaseUrl}/repos/${repoFullName}/contents/${path}`,
+      hostCacheKey("doc", repoFullName, path),
+      { ...githubRequest, signal }
+    );
   } catch (error) {
-    if (error.message.includes('404')) {
-      await cacheService.set(cacheKey, { status: 404, path });
+    if (error instanceof NotFoundError) {
+      return null;
     }
-    return null;
+    throw error;
   }
 };
 
-// Fetch documentation file status
-export const checkDocumentationFiles = async (repoFullName: string): Promise<DocCheckResult[] | null> => {
-  try {
-    const baseUrl = `https://api.github.com/repos/${repoFullName}/contents`;
-    const results: DocCheckResult[] = [];
-    
-    // Handle rate limiting by batching requests
-    const batchedFiles = documentationFiles.reduce((batches, file, index) => {
-      const batchIndex = Math.floor(index / 3); // Check 3 files at a time
-      batches[batchIndex] = (batches[batchIndex] || []).concat(file);
-      return batches;
-    }, [] as DocFile[][]);
-    
-    for (const batch of batchedFiles) {
-      const batchPromises = batch.map(async (file) => {
-        const allPaths = [file.path, ...(file.alternativePaths || [])];
-        
-        // Try all possible paths for this documentation file
-        for (const path of allPaths) {
-          const data = await fetchDocFile(baseUrl, path);
-          if (data) {
-            return {
-              file,
-              exists: true,
-              url: data.html_url || `https://github.com/${repoFullName}/blob/main/${path}`
-            };
-          }
-        }
-        
-        // If we get here, the file wasn't found at any of the paths
-        return {
-          file,
-          exists: false
-        };
-      });
-      
-      const batchResults = await Promise.all(batchPromises);
-      results.push(...batchResults);
+// Fetch documentation file status; rejects with an ApiError when the checks can't be made
+export const checkDocumentationFiles = async (
+  repoFullName: string,
+  signal?: AbortSignal
+): Promise<DocCheckResult[]> => {
+  const { webBaseUrl } = hostService.getActiveHost();
+  const results: DocCheckResult[] = [];
+  
+  // Handle rate limiting by batching requests
+  const batchedFiles = documentationFiles.reduce((batches, file, index) => {
+    const batchIndex = Math.floor(index / 3); // Check 3 files at a time
+    batches[batchIndex] = (batches[batchIndex] || []).concat(file);
+    return batches;
+  }, [] as DocFile[][]);
+  
+  for (const batch of batchedFiles) {
+    const batchPromises = batch.map(async (file) => {
+      const allPaths = [file.path, ...(file.alternativePaths || [])];
       
-      // Add a small delay between batches to avoid rate limiting
-      if (batchedFiles.indexOf(batch) < batchedFiles.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 500));
+      // Try all possible paths for this documentation file
+      for (const path of allPaths) {
+        const data = await fetchDocFile(repoFullName, path, signal);
+        if (data) {
+          return {
+            file,
+            exists: true,
+            url: data.html_url || `${webBaseUrl}/${repoFullName}/blob/main/${path}`
+          };
+        }
       }
-    }
+      
+      // If we get here, the file wasn't found at any of the paths
+      return {
+        file,
+        exists: false
+      };
+    });
     
-    return results;
-  } catch (error) {
-    console.error("Failed to check documentation files:", error);
-    toast.error("Failed to check documentation files");
-    return null;
+    const batchResults = await Promise.all(batchPromises);
+    results.push(...batchResults);
+    
+    // Add a small delay between batches to avoid rate limiting
+    if (batchedFiles.indexOf(batch) < batchedFiles.length - 1) {
+      await delay(500, signal);
+    }
   }
+  
+  return results;
 };
 
 // Add utility function to check if docs are cached
 export const areDocsCached = async (repoFullName: string): Promise<boolean> => {
-  const baseUrl = `https://api.github.com/repos/${repoFullName}/contents`;
   const mainFiles = ['README.md', 'LICENSE']; // Check main files as indicators
   
   for (const file of mainFiles) {
-    const cacheKey = `doc:${baseUrl}/${file}`;
+    const cacheKey = hostCacheKey("doc", repoFullName, file);
     const cachedData = await cacheService.get(cacheKey);
     if (!cachedData) {
       return false;
@@ -220,40 +182,15 @@ export const areDocsCached = async (repoFullName: string): Promise<boolean> => {
 
 // Add function to clear docs cache
 export const clearDocsCache = async (repoFullName: string): Promise<void> => {
-  const baseUrl = `https://api.github.com/repos/${repoFullName}/contents`;
-  
   for (const file of documentationFiles) {
     const allPaths = [file.path, ...(file.alternativePaths || [])];
     for (const path of allPaths) {
-      const cacheKey = `doc:${baseUrl}/${path}`;
+      const cacheKey = hostCacheKey("doc", repoFullName, path);
       await cacheService.delete(cacheKey);
     }
   }
 };
 
-// Calculate documentation health score (0-100)
-export const calculateDocScore = (results: DocCheckResult[]): number => {
-  if (!results || results.length === 0) return 0;
-
-  const weights = {
-    critical: 40,
-    recommended: 25,
-    optional: 10
-  };
-
-  const totalPossibleScore = results.reduce(
-    (sum, result) => sum + weights[result.file.importance],
-    0
-  );
-
-  const actualScore = results.reduce(
-    (sum, result) => sum + (result.exists ? weights[result.file.importance] : 0),
-    0
-  );
-
-  return Math.round((actualScore / totalPossibleScore) * 100);
-};
-
 // Get color based on documentation health score
 export const getDocHealthColor = (score: number): string => {
   if (score >= 80) return "bg-green-500 text-white";
@@ -0,0 +1,96 @@
+import { cacheService } from "./cacheService";
+import { FORGE_TOKEN_STORE } from "./database";
+import { createLogger } from "./logger";
+
+const log = createLogger("tokens");
+
+// A token for a GitLab, Gitea or Bitbucket host. Only sent to the host it was saved for.
+export interface ForgeToken {
+  host: string; // e.g. "gitlab.com" or "localhost:7990"
+  token: string;
+  addedAt: number;
+}
+
+type ForgeTokenListener = (tokens: ForgeToken[]) => void;
+
+// Forge tokens saved from the settings panel and kept in IndexedDB, never in the bundle.
+// Unlike GitHub tokens they aren't validated or rotated: each host has at most one.
+class ForgeTokenService {
+  private tokens = new Map<string, ForgeToken>();
+  private loading: Promise<void> | null = null;
+  private listeners = new Set<ForgeTokenListener>();
+
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readAll().catch((): ForgeToken[] => []).then((tokens) => {
+        this.tokens = new Map(tokens.map((stored) => [stored.host, stored]));
+        this.emit();
+      });
+    }
+    return this.loading;
+  }
+
+  list(): ForgeToken[] {
+    return [...this.tokens.values()];
+  }
+
+  async getToken(host: string): Promise<string | null> {
+    await this.load();
+    return this.tokens.get(host)?.token ?? null;
+  }
+
+  async set(host: string, token: string): Promise<void> {
+    await this.load();
+    const stored: ForgeToken = { host, token: token.trim(), addedAt: Date.now() };
+    await this.write((store) => store.put(stored));
+    this.tokens.set(host, stored);
+    this.emit();
+  }
+
+  async remove(host: string): Promise<void> {
+    await this.load();
+    await this.write((store) => store.delete(host));
+    this.tokens.delete(host);
+    this.emit();
+  }
+
+  subscribe(listener: ForgeTokenListener): () => void {
+    this.listeners.add(listener);
+    listener(this.list());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async readAll(): Promise<ForgeToken[]> {
+    const db = await cacheService.getDatabase();
+    if (!db) return [];
+
+    return new Promise((resolve) => {
+      const request = db.transaction([FORGE_TOKEN_STORE], "readonly").objectStore(FORGE_TOKEN_STORE).getAll();
+      request.onsuccess = () => resolve(request.result as ForgeToken[]);
+      request.onerror = () => {
+        log.error("Error reading forge tokens", request.error);
+        resolve([]);
+      };
+    });
+  }
+
+  private async write(change: (store: IDBObjectStore) => IDBRequest): Promise<void> {
+    const db = await cacheService.getDatabase();
+    if (!db) throw new Error("Tokens can't be saved without IndexedDB");
+
+    return new Promise((resolve, reject) => {
+      const request = change(db.transaction([FORGE_TOKEN_STORE], "readwrite").objectStore(FORGE_TOKEN_STORE));
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private emit(): void {
+    const snapshot = this.list();
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+}
+
+export const forgeTokenService = new ForgeTokenService();
@@ -0,0 +1,33 @@
+import { RequestConfig } from "./httpClient";
+import { tokenService } from "./tokenService";
+
+// Helper function to create fetch options with auth header
+const getFetchOptions = (token: string | null) => {
+  const options: RequestInit = {
+    headers: {
+      'Accept': 'application/vnd.github.v3+json',
+    }
+  };
+
+  if (token) {
+    options.headers = {
+      ...options.headers,
+      'Authorization': `token ${token}`
+    };
+  }
+
+  return options;
+};
+
+// REST requests against the active GitHub connection. The token is resolved
+// per attempt so a retry can rotate to one with quota left.
+export const githubRequest: RequestConfig = {
+  authorize: async () => {
+    const token = await tokenService.getActiveToken();
+    return {
+      options: getFetchOptions(token),
+      onResponse: (response) => tokenService.recordResponse(token, response.headers)
+    };
+  },
+  rateLimitResource: 'core'
+};
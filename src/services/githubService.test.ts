@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { IDBFactory } from "fake-indexeddb";
+
+const ACTIVITY = [{ week: 1700000000, days: [0, 1, 2, 0, 0, 3, 0], total: 6 }];
+
+describe("GitHub statistics polling", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  // Fresh modules, so nothing cached carries over between tests
+  const loadFetchCommitActivity = async () => (await import("./githubService")).fetchCommitActivity;
+
+  // Answer 202 the given number of times, then the statistics
+  const serveStats = (pending: number) => {
+    let calls = 0;
+    fetchMock = vi.fn(async () =>
+      calls++ < pending ? new Response(null, { status: 202 }) : new Response(JSON.stringify(ACTIVITY), { status: 200 })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+  };
+
+  // Let every backoff elapse until the request settles; IndexedDB keeps running on real setImmediate
+  const untilSettled = async (promise: Promise<unknown>) => {
+    let settled = false;
+    promise.then(
+      () => (settled = true),
+      () => (settled = true)
+    );
+    while (!settled) {
+      await vi.advanceTimersByTimeAsync(30000);
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  };
+
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("polls until the statistics are ready and caches only the answer", async () => {
+    serveStats(2);
+    const fetchCommitActivity = await loadFetchCommitActivity();
+    const onPending = vi.fn();
+
+    const activity = fetchCommitActivity("facebook/react", onPending);
+    await untilSettled(activity);
+    await expect(activity).resolves.toEqual(ACTIVITY);
+    expect(onPending).toHaveBeenCalledTimes(2);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    await expect(fetchCommitActivity("facebook/react")).resolves.toEqual(ACTIVITY);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up once every backoff has passed", async () => {
+    serveStats(Infinity);
+    const fetchCommitActivity = await loadFetchCommitActivity();
+    const onPending = vi.fn();
+
+    const activity = fetchCommitActivity("facebook/react", onPending);
+    await untilSettled(activity);
+    await expect(activity).rejects.toMatchObject({ kind: "server", status: 202 });
+    expect(onPending).toHaveBeenCalledTimes(7);
+    expect(fetchMock).toHaveBeenCalledTimes(8);
+
+    // The placeholder isn't cached, so the next load asks again
+    serveStats(0);
+    await expect(fetchCommitActivity("facebook/react")).resolves.toEqual(ACTIVITY);
+  });
+
+  it("stops polling when aborted between polls", async () => {
+    serveStats(Infinity);
+    const fetchCommitActivity = await loadFetchCommitActivity();
+    const controller = new AbortController();
+    const onPending = vi.fn();
+
+    const activity = fetchCommitActivity("facebook/react", onPending, controller.signal);
+    await vi.waitFor(() => expect(onPending).toHaveBeenCalledTimes(1));
+    controller.abort();
+
+    await expect(activity).rejects.toMatchObject({ name: "AbortError" });
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
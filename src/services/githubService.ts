@@ -1,5 +1,10 @@
-import { toast } from "sonner";
 import { cacheService } from "./cacheService";
+import { fetchRepositoryBundle, isGraphQLEnabled } from "./graphqlService";
+import { delay, fetchPaginated, fetchWithCache, PaginationOptions } from "./httpClient";
+import { githubRequest } from "./githubRequest";
+import { ServerError, StatsPendingError } from "./apiErrors";
+import { hostCacheKey, hostService } from "./hostService";
+import { createLogger } from "./logger";
 
 // Types
 export interface Repository {
@@ -11,7 +16,8 @@ export interface Repository {
   stargazers_count: number;
   watchers_count: number;
   forks_count: number;
-  open_issues_count: number;
+  open_issues_count: number; // Includes open pull requests, like GitHub's REST API
+  open_pull_requests_count?: number; // Missing when the provider can't count them
   language: string;
   created_at: string;
   updated_at: string;
@@ -53,6 +59,12 @@ export interface Issue {
     color: string;
   }[];
   html_url: string;
+  // Present when the /issues endpoint returns a pull request
+  pull_request?: {
+    url: string;
+    html_url: string;
+    merged_at?: string | null;
+  };
 }
 
 export interface PullRequest {
@@ -63,6 +75,7 @@ export interface PullRequest {
   updated_at: string;
   closed_at: string | null;
   merged_at: string | null;
+  merged?: boolean; // Set by providers that know a pull request was merged but not when; merged_at stays null
   user: {
     login: string;
     avatar_url: string;
@@ -94,103 +107,35 @@ export interface Release {
   html_url: string;
 }
 
-// Base GitHub API URL
-const GITHUB_API_BASE_URL = "https://api.github.com";
-
-// Get GitHub token from environment variables
-const GITHUB_TOKEN = import.meta.env.VITE_GITHUB_TOKEN;
-
-// Helper function to create fetch options with auth header
-const getFetchOptions = () => {
-  const options: RequestInit = {
-    headers: {
-      'Accept': 'application/vnd.github.v3+json',
-    }
-  };
-
-  if (GITHUB_TOKEN) {
-    options.headers = {
-      ...options.headers,
-      'Authorization': `token ${GITHUB_TOKEN}`
-    };
-  }
+// Pagination types live with the shared HTTP client
+export type { PaginationOptions, PaginationProgress } from "./httpClient";
+export { DEFAULT_MAX_ITEMS } from "./httpClient";
+export { calculateIssueResolutionTime, calculatePRMergeTime } from "./analytics";
 
-  return options;
-};
+const log = createLogger("github");
 
-// Helper function to handle API errors
-const handleApiError = (error: any, message: string) => {
-  console.error(`${message}:`, error);
-  
-  if (error.response && error.response.status === 403) {
-    toast.error("GitHub API rate limit exceeded. Please try again later.");
-  } else if (error.response && error.response.status === 404) {
-    toast.error("Repository not found. Please check the repository name.");
-  } else {
-    toast.error(`Error: ${message}`);
-  }
-  
-  return null;
-};
+// Base API URL of the active GitHub or GHES connection
+const getApiBaseUrl = () => hostService.getActiveHost().apiBaseUrl;
 
-// Helper function to fetch with cache and handle 404s
-const fetchWithCache = async (url: string, options: RequestInit, cacheKey: string, retries = 2) => {
-  // Try to get from cache first, including 404 responses
-  const cachedData = await cacheService.get(cacheKey);
-  if (cachedData) {
-    // If we cached a 404, throw it
-    if (cachedData.status === 404) {
-      throw new Error('404');
-    }
-    return cachedData;
-  }
+// Backoff between polls of /stats endpoints that answer 202
+const STATS_POLL_DELAYS = [2000, 4000, 8000, 15000, 30000, 30000, 30000];
 
-  // If not in cache, fetch from API with retry logic
-  let lastError;
-  for (let i = 0; i <= retries; i++) {
+// Poll a /stats endpoint until GitHub has finished computing it
+const fetchStatsWithPolling = async (url: string, cacheKey: string, onPending?: () => void, signal?: AbortSignal) => {
+  for (let attempt = 0; ; attempt++) {
     try {
-      const response = await fetch(url, options);
-      
-      // Handle rate limiting
-      if (response.status === 403) {
-        const resetTime = response.headers.get('X-RateLimit-Reset');
-        const waitTime = resetTime ? parseInt(resetTime) * 1000 - Date.now() : 0;
-        if (waitTime > 0 && i < retries) {
-          await new Promise(resolve => setTimeout(resolve, Math.min(waitTime, 5000)));
-          continue;
-        }
-      }
-
-      // Handle 404s - cache them too
-      if (response.status === 404) {
-        const notFoundData = { status: 404, url };
-        await cacheService.set(cacheKey, notFoundData);
-        throw new Error('404');
-      }
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! Status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      
-      // Cache successful response
-      await cacheService.set(cacheKey, data);
-      
-      return data;
+      return await fetchWithCache(url, cacheKey, { ...githubRequest, signal });
     } catch (error) {
-      lastError = error;
-      // Don't retry 404s
-      if (error.message === '404') {
+      if (!(error instanceof StatsPendingError)) {
         throw error;
       }
-      if (i < retries) {
-        await new Promise(resolve => setTimeout(resolve, 1000 * (i + 1)));
+      if (attempt >= STATS_POLL_DELAYS.length) {
+        throw new ServerError(202, url, "GitHub is still computing statistics for this repository. Try again in a few minutes.");
       }
+      onPending?.();
+      await delay(STATS_POLL_DELAYS[attempt], signal);
     }
   }
-  
-  throw lastError;
 };
 
 // Batch fetch helper to reduce API calls
@@ -204,7 +149,7 @@ const batchFetch = async <T>(
     const batch = items.slice(i, i + batchSize);
     const batchResults = await Promise.all(
       batch.map(item => fetchFn(item).catch(error => {
-        console.error(`Error fetching ${item}:`, error);
+        log.error(`Error fetching ${item}`, error);
         return null;
       }))
     );
@@ -216,37 +161,71 @@ const batchFetch = async <T>(
   return results;
 };
 
+// With one pull request per page, the page number of the rel="last" link is the open count
+const fetchOpenPullRequestCount = (repoFullName: string, signal?: AbortSignal): Promise<number> =>
+  fetchWithCache(
+    `${getApiBaseUrl()}/repos/${repoFullName}/pulls?state=open&per_page=1`,
+    hostCacheKey("open-pulls-count", repoFullName),
+    {
+      ...githubRequest,
+      signal,
+      parse: async (response) => {
+        const last = response.headers.get('Link')?.match(/<([^>]+)>;\s*rel="last"/);
+        return last ? parseInt(new URL(last[1]).searchParams.get('page') || '0') : (await response.json()).length;
+      }
+    }
+  );
+
 // Fetch repository info
-export const fetchRepository = async (repoFullName: string): Promise<Repository | null> => {
-  try {
-    const cacheKey = `repo:${repoFullName}`;
-    return await fetchWithCache(
-      `${GITHUB_API_BASE_URL}/repos/${repoFullName}`,
-      getFetchOptions(),
-      cacheKey
-    );
-  } catch (error) {
-    return handleApiError(error, "Failed to fetch repository data");
-  }
+export const fetchRepository = async (repoFullName: string, signal?: AbortSignal): Promise<Repository> => {
+  const cacheKey = hostCacheKey("repo", repoFullName);
+  const [repository, openPullRequests] = await Promise.all([
+    fetchWithCache(`${getApiBaseUrl()}/repos/${repoFullName}`, cacheKey, { ...githubRequest, signal }),
+    fetchOpenPullRequestCount(repoFullName, signal).catch(() => undefined)
+  ]);
+  return { ...repository, open_pull_requests_count: openPullRequests };
 };
 
 // Fetch all data in parallel with proper error handling
-export const fetchAllRepositoryData = async (repoFullName: string) => {
+export const fetchAllRepositoryData = async (repoFullName: string, signal?: AbortSignal) => {
+  // One GraphQL query covers everything except contributors and /stats
+  if (await isGraphQLEnabled()) {
+    // Fall back to REST when the bundle fails
+    const bundle = await fetchRepositoryBundle(repoFullName, {}, signal).catch(() => null);
+    if (bundle) {
+      const [contributors, commitActivity, codeFrequency] = await Promise.all([
+        fetchContributors(repoFullName, 10, signal).catch(() => null),
+        fetchCommitActivity(repoFullName, undefined, signal).catch(() => null),
+        fetchCodeFrequency(repoFullName, undefined, signal).catch(() => null)
+      ]);
+      return {
+        repository: bundle.repository,
+        contributors,
+        issues: bundle.issues,
+        pullRequests: bundle.pullRequests,
+        commitActivity,
+        codeFrequency,
+        releases: bundle.releases,
+        docResults: bundle.docResults
+      };
+    }
+  }
+
   const fetchTasks = {
-    repository: fetchRepository(repoFullName),
-    contributors: fetchContributors(repoFullName),
-    issues: fetchIssues(repoFullName),
-    pullRequests: fetchPullRequests(repoFullName),
-    commitActivity: fetchCommitActivity(repoFullName),
-    codeFrequency: fetchCodeFrequency(repoFullName),
-    releases: fetchReleases(repoFullName)
+    repository: fetchRepository(repoFullName, signal),
+    contributors: fetchContributors(repoFullName, 10, signal),
+    issues: fetchIssues(repoFullName, "all", {}, signal),
+    pullRequests: fetchPullRequests(repoFullName, "all", {}, signal),
+    commitActivity: fetchCommitActivity(repoFullName, undefined, signal),
+    codeFrequency: fetchCodeFrequency(repoFullName, undefined, signal),
+    releases: fetchReleases(repoFullName, 10, signal)
   };
 
   const results = await Promise.allSettled(Object.entries(fetchTasks).map(async ([key, promise]) => {
     try {
       return { key, data: await promise };
     } catch (error) {
-      console.error(`Error fetching ${key}:`, error);
+      log.error(`Error fetching ${key}`, error);
       return { key, data: null };
     }
   }));
@@ -262,123 +241,94 @@ export const fetchAllRepositoryData = async (repoFullName: string) => {
 };
 
 // Fetch contributors
-export const fetchContributors = async (repoFullName: string, limit = 10): Promise<Contributor[] | null> => {
-  try {
-    const cacheKey = `contributors:${repoFullName}:${limit}`;
-    return await fetchWithCache(
-      `${GITHUB_API_BASE_URL}/repos/${repoFullName}/contributors?per_page=${limit}`,
-      getFetchOptions(),
-      cacheKey
-    );
-  } catch (error) {
-    return handleApiError(error, "Failed to fetch contributors");
-  }
+export const fetchContributors = async (
+  repoFullName: string,
+  limit = 10,
+  signal?: AbortSignal
+): Promise<Contributor[]> => {
+  const cacheKey = hostCacheKey("contributors", repoFullName, limit);
+  return await fetchWithCache(
+    `${getApiBaseUrl()}/repos/${repoFullName}/contributors?per_page=${limit}`,
+    cacheKey,
+    { ...githubRequest, signal }
+  );
 };
 
-// Fetch issues
-export const fetchIssues = async (repoFullName: string, state = "all", limit = 100): Promise<Issue[] | null> => {
-  try {
-    const cacheKey = `issues:${repoFullName}:${state}:${limit}`;
-    return await fetchWithCache(
-      `${GITHUB_API_BASE_URL}/repos/${repoFullName}/issues?state=${state}&per_page=${limit}`,
-      getFetchOptions(),
-      cacheKey
-    );
-  } catch (error) {
-    return handleApiError(error, "Failed to fetch issues");
-  }
+// Split the mixed /issues payload into real issues and pull requests
+export const splitIssuesAndPullRequests = (items: Issue[]): { issues: Issue[]; pullRequests: Issue[] } => ({
+  issues: items.filter(item => !item.pull_request),
+  pullRequests: items.filter(item => Boolean(item.pull_request))
+});
+
+// Fetch issues, excluding the pull requests GitHub mixes into /issues
+export const fetchIssues = async (
+  repoFullName: string,
+  state = "all",
+  pagination: PaginationOptions<Issue> = {},
+  signal?: AbortSignal
+): Promise<Issue[]> => {
+  // Pull requests are dropped before the item cap applies, so busy repositories still get maxItems issues
+  return await fetchPaginated<Issue>(
+    `${getApiBaseUrl()}/repos/${repoFullName}/issues?state=${state}&sort=created&direction=desc&per_page=100`,
+    hostCacheKey("issues", repoFullName, state),
+    { ...pagination, filter: (item) => !item.pull_request },
+    { ...githubRequest, signal }
+  );
 };
 
 // Fetch pull requests
-export const fetchPullRequests = async (repoFullName: string, state = "all", limit = 100): Promise<PullRequest[] | null> => {
-  try {
-    const cacheKey = `pulls:${repoFullName}:${state}:${limit}`;
-    return await fetchWithCache(
-      `${GITHUB_API_BASE_URL}/repos/${repoFullName}/pulls?state=${state}&per_page=${limit}`,
-      getFetchOptions(),
-      cacheKey
-    );
-  } catch (error) {
-    return handleApiError(error, "Failed to fetch pull requests");
-  }
+export const fetchPullRequests = async (
+  repoFullName: string,
+  state = "all",
+  pagination: PaginationOptions<PullRequest> = {},
+  signal?: AbortSignal
+): Promise<PullRequest[]> => {
+  return await fetchPaginated(
+    `${getApiBaseUrl()}/repos/${repoFullName}/pulls?state=${state}&sort=created&direction=desc&per_page=100`,
+    hostCacheKey("pulls", repoFullName, state),
+    pagination,
+    { ...githubRequest, signal }
+  );
 };
 
-// Fetch commit activity
-export const fetchCommitActivity = async (repoFullName: string): Promise<CommitActivity[] | null> => {
-  try {
-    const cacheKey = `commit-activity:${repoFullName}`;
-    return await fetchWithCache(
-      `${GITHUB_API_BASE_URL}/repos/${repoFullName}/stats/commit_activity`,
-      getFetchOptions(),
-      cacheKey
-    );
-  } catch (error) {
-    return handleApiError(error, "Failed to fetch commit activity");
-  }
+// Fetch commit activity; onPending fires while GitHub computes the statistics
+export const fetchCommitActivity = async (
+  repoFullName: string,
+  onPending?: () => void,
+  signal?: AbortSignal
+): Promise<CommitActivity[]> => {
+  const cacheKey = hostCacheKey("commit-activity", repoFullName);
+  return await fetchStatsWithPolling(
+    `${getApiBaseUrl()}/repos/${repoFullName}/stats/commit_activity`,
+    cacheKey,
+    onPending,
+    signal
+  );
 };
 
-// Fetch code frequency
-export const fetchCodeFrequency = async (repoFullName: string): Promise<CodeFrequency[] | null> => {
-  try {
-    const cacheKey = `code-frequency:${repoFullName}`;
-    return await fetchWithCache(
-      `${GITHUB_API_BASE_URL}/repos/${repoFullName}/stats/code_frequency`,
-      getFetchOptions(),
-      cacheKey
-    );
-  } catch (error) {
-    return handleApiError(error, "Failed to fetch code frequency");
-  }
+// Fetch code frequency; onPending fires while GitHub computes the statistics
+export const fetchCodeFrequency = async (
+  repoFullName: string,
+  onPending?: () => void,
+  signal?: AbortSignal
+): Promise<CodeFrequency[]> => {
+  const cacheKey = hostCacheKey("code-frequency", repoFullName);
+  return fetchStatsWithPolling(
+    `${getApiBaseUrl()}/repos/${repoFullName}/stats/code_frequency`,
+    cacheKey,
+    onPending,
+    signal
+  );
 };
 
 // Fetch releases
-export const fetchReleases = async (repoFullName: string, limit = 10): Promise<Release[] | null> => {
-  try {
-    const cacheKey = `releases:${repoFullName}:${limit}`;
-    return await fetchWithCache(
-      `${GITHUB_API_BASE_URL}/repos/${repoFullName}/releases?per_page=${limit}`,
-      getFetchOptions(),
-      cacheKey
-    );
-  } catch (error) {
-    return handleApiError(error, "Failed to fetch releases");
-  }
-};
-
-// Calculate average issue resolution time
-export const calculateIssueResolutionTime = (issues: Issue[]): number | null => {
-  const closedIssues = issues.filter(issue => issue.closed_at !== null);
-  
-  if (closedIssues.length === 0) {
-    return null;
-  }
-  
-  const totalResolutionTime = closedIssues.reduce((total, issue) => {
-    const createdAt = new Date(issue.created_at).getTime();
-    const closedAt = new Date(issue.closed_at as string).getTime();
-    return total + (closedAt - createdAt);
-  }, 0);
-  
-  // Return average in milliseconds
-  return totalResolutionTime / closedIssues.length;
-};
-
-// Calculate average PR merge time
-export const calculatePRMergeTime = (prs: PullRequest[]): number | null => {
-  const mergedPRs = prs.filter(pr => pr.merged_at !== null);
-  
-  if (mergedPRs.length === 0) {
-    return null;
-  }
-  
-  const totalMergeTime = mergedPRs.reduce((total, pr) => {
-    const createdAt = new Date(pr.created_at).getTime();
-    const mergedAt = new Date(pr.merged_at as string).getTime();
-    return total + (mergedAt - createdAt);
-  }, 0);
-  
-  // Return average in milliseconds
-  return totalMergeTime / mergedPRs.length;
+export const fetchReleases = async (repoFullName: string, limit = 10, signal?: AbortSignal): Promise<Release[]> => {
+  const cacheKey = hostCacheKey("releases", repoFullName, limit);
+  return await fetchWithCache(
+    `${getApiBaseUrl()}/repos/${repoFullName}/releases?per_page=${limit}`,
+    cacheKey,
+    { ...githubRequest, signal }
+  );
 };
 
 // Format milliseconds to human-readable duration
@@ -404,6 +354,8 @@ export const formatDuration = (ms: number): string => {
 // Format date to human-readable
 export const formatDate = (dateString: string): string => {
   const date = new Date(dateString);
+  // Some forges don't report every date
+  if (isNaN(date.getTime())) return "N/A";
   return new Intl.DateTimeFormat('en-US', {
     year: 'numeric',
     month: 'short',
@@ -411,24 +363,24 @@ export const formatDate = (dateString: string): string => {
   }).format(date);
 };
 
-// Add utility function for prefetching
-export const prefetchRepository = async (repoFullName: string) => {
+// Add utility function for prefetching; requests still running are shared with the dashboard
+export const prefetchRepository = async (repoFullName: string, signal?: AbortSignal) => {
   try {
-    const repo = await fetchRepository(repoFullName);
+    const repo = await fetchRepository(repoFullName, signal);
     if (repo) {
-      // Prefetch other data in the background
-      fetchAllRepositoryData(repoFullName).catch(() => {});
+      // Prefetch other data in the background; the repository request is already cached
+      fetchAllRepositoryData(repoFullName, signal).catch(() => {});
     }
     return repo;
   } catch (error) {
-    console.error('Error prefetching repository:', error);
+    log.error("Error prefetching repository", error);
     return null;
   }
 };
 
 // Add function to check if data is cached
 export const isDataCached = async (repoFullName: string): Promise<boolean> => {
-  const cacheKey = `repo:${repoFullName}`;
+  const cacheKey = hostCacheKey("repo", repoFullName);
   const cachedData = await cacheService.get(cacheKey);
   return cachedData !== null;
 };
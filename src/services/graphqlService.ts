@@ -0,0 +1,413 @@
+import { rateLimitService } from "./rateLimitService";
+import { tokenService } from "./tokenService";
+import { hostCacheKey, hostService } from "./hostService";
+import { fetchWithCache, RequestConfig } from "./httpClient";
+import { createLogger } from "./logger";
+import {
+  isAbortError,
+  NotFoundError,
+  RateLimitedError,
+  ServerError,
+  UnauthorizedError,
+} from "./apiErrors";
+import {
+  Repository,
+  Issue,
+  PullRequest,
+  Release,
+  PaginationOptions,
+  DEFAULT_MAX_ITEMS,
+} from "./githubService";
+import { DocCheckResult, documentationFiles } from "./docsService";
+
+const log = createLogger("graphql");
+
+const PAGE_SIZE = 100;
+
+export interface RepositoryBundle {
+  repository: Repository;
+  issues: Issue[];
+  pullRequests: PullRequest[];
+  releases: Release[];
+  docResults: DocCheckResult[];
+}
+
+export interface RepositoryBundleOptions {
+  issues?: PaginationOptions<Issue>;
+  pullRequests?: PaginationOptions<PullRequest>;
+  releases?: number;
+}
+
+// GraphQL is opt-in and always needs a token
+export const isGraphQLEnabled = async (): Promise<boolean> =>
+  import.meta.env.VITE_GITHUB_GRAPHQL === "true" && Boolean(await tokenService.getActiveToken());
+
+interface GraphQLActor {
+  login: string;
+  avatarUrl: string;
+}
+
+interface GraphQLIssueNode {
+  number: number;
+  title: string;
+  state: string;
+  createdAt: string;
+  updatedAt: string;
+  closedAt: string | null;
+  url: string;
+  author: GraphQLActor | null;
+  labels: { nodes: { name: string; color: string }[] };
+}
+
+interface GraphQLPullRequestNode extends Omit<GraphQLIssueNode, "labels"> {
+  mergedAt: string | null;
+}
+
+interface GraphQLConnection<T> {
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  nodes: T[];
+}
+
+interface GraphQLReleaseNode {
+  databaseId: number;
+  tagName: string;
+  name: string;
+  createdAt: string;
+  publishedAt: string;
+  url: string;
+  releaseAssets: { nodes: { downloadCount: number }[] };
+}
+
+interface GraphQLRepositoryNode {
+  databaseId: number;
+  name: string;
+  nameWithOwner: string;
+  description: string;
+  url: string;
+  stargazerCount: number;
+  forkCount: number;
+  openIssues: { totalCount: number };
+  openPullRequests: { totalCount: number };
+  primaryLanguage: { name: string } | null;
+  createdAt: string;
+  updatedAt: string;
+  pushedAt: string;
+  owner: { login: string; avatarUrl: string; url: string };
+  licenseInfo: { name: string; spdxId: string; url: string } | null;
+  repositoryTopics: { nodes: { topic: { name: string } }[] };
+  defaultBranchRef: { name: string } | null;
+  issues: GraphQLConnection<GraphQLIssueNode>;
+  pullRequests: GraphQLConnection<GraphQLPullRequestNode>;
+  releases: { nodes: GraphQLReleaseNode[] };
+}
+
+// Aliased documentation lookups (doc0, doc1, ...) are null when the path is missing
+type GraphQLDocObjects = Record<string, { __typename: string } | null>;
+
+const ISSUE_FIELDS = `
+  number
+  title
+  state
+  createdAt
+  updatedAt
+  closedAt
+  url
+  author { login avatarUrl }
+  labels(first: 10) { nodes { name color } }
+`;
+
+const PULL_REQUEST_FIELDS = `
+  number
+  title
+  state
+  createdAt
+  updatedAt
+  closedAt
+  mergedAt
+  url
+  author { login avatarUrl }
+`;
+
+// Every documentation path becomes an aliased object lookup on the default branch
+const docPaths = documentationFiles.flatMap((file) => [file.path, ...(file.alternativePaths || [])]);
+
+const docObjectFields = docPaths
+  .map((path, index) => `doc${index}: object(expression: ${JSON.stringify(`HEAD:${path}`)}) { __typename }`)
+  .join("\n");
+
+const BUNDLE_QUERY = `
+  query RepositoryBundle($owner: String!, $name: String!, $pageSize: Int!, $releaseCount: Int!) {
+    repository(owner: $owner, name: $name) {
+      databaseId
+      name
+      nameWithOwner
+      description
+      url
+      stargazerCount
+      forkCount
+      openIssues: issues(states: OPEN) { totalCount }
+      openPullRequests: pullRequests(states: OPEN) { totalCount }
+      primaryLanguage { name }
+      createdAt
+      updatedAt
+      pushedAt
+      owner { login avatarUrl url }
+      licenseInfo { name spdxId url }
+      repositoryTopics(first: 20) { nodes { topic { name } } }
+      defaultBranchRef { name }
+      issues(first: $pageSize, orderBy: { field: CREATED_AT, direction: DESC }) {
+        pageInfo { hasNextPage endCursor }
+        nodes { ${ISSUE_FIELDS} }
+      }
+      pullRequests(first: $pageSize, orderBy: { field: CREATED_AT, direction: DESC }) {
+        pageInfo { hasNextPage endCursor }
+        nodes { ${PULL_REQUEST_FIELDS} }
+      }
+      releases(first: $releaseCount, orderBy: { field: CREATED_AT, direction: DESC }) {
+        nodes {
+          databaseId
+          tagName
+          name
+          createdAt
+          publishedAt
+          url
+          releaseAssets(first: 20) { nodes { downloadCount } }
+        }
+      }
+      ${docObjectFields}
+    }
+  }
+`;
+
+const ISSUES_PAGE_QUERY = `
+  query IssuesPage($owner: String!, $name: String!, $pageSize: Int!, $cursor: String!) {
+    repository(owner: $owner, name: $name) {
+      connection: issues(first: $pageSize, after: $cursor, orderBy: { field: CREATED_AT, direction: DESC }) {
+        pageInfo { hasNextPage endCursor }
+        nodes { ${ISSUE_FIELDS} }
+      }
+    }
+  }
+`;
+
+const PULL_REQUESTS_PAGE_QUERY = `
+  query PullRequestsPage($owner: String!, $name: String!, $pageSize: Int!, $cursor: String!) {
+    repository(owner: $owner, name: $name) {
+      connection: pullRequests(first: $pageSize, after: $cursor, orderBy: { field: CREATED_AT, direction: DESC }) {
+        pageInfo { hasNextPage endCursor }
+        nodes { ${PULL_REQUEST_FIELDS} }
+      }
+    }
+  }
+`;
+
+// GraphQL requests against the active GitHub connection; a rate limit is reported as a 200 with errors
+const graphqlConfig: RequestConfig = {
+  authorize: async () => {
+    const token = await tokenService.getActiveToken();
+    return {
+      options: { headers: { "Content-Type": "application/json", Authorization: `bearer ${token}` } },
+      onResponse: (response) => tokenService.recordResponse(token, response.headers),
+    };
+  },
+  rateLimitResource: "graphql",
+  method: "POST",
+  // GraphQL reports most failures with a 200 and an errors array
+  parse: async (response) => {
+    const { data, errors } = await response.json();
+    if (errors?.length) {
+      const types = errors.map((error: { type?: string }) => error.type);
+      if (types.includes("NOT_FOUND")) {
+        throw new NotFoundError(response.url);
+      }
+      if (types.includes("RATE_LIMITED")) {
+        throw new RateLimitedError(rateLimitService.getBudget("graphql")?.reset ?? null, response.status, response.url);
+      }
+      if (types.includes("FORBIDDEN")) {
+        throw new UnauthorizedError(403, response.url);
+      }
+      throw new ServerError(response.status, response.url, errors.map((error: { message: string }) => error.message).join("; "));
+    }
+    return data;
+  },
+};
+
+// Run a query, caching the raw `data` payload under cacheKey. Goes through fetchWithCache like REST
+// requests, so identical queries share one request, transient failures are retried and an expired
+// payload is served when the request can't be answered.
+const graphqlRequest = (query: string, variables: Record<string, unknown>, cacheKey: string, signal?: AbortSignal) =>
+  fetchWithCache(hostService.getActiveHost().graphqlUrl, cacheKey, {
+    ...graphqlConfig,
+    body: JSON.stringify({ query, variables }),
+    signal,
+  });
+
+const toActor = (author: GraphQLActor | null) => ({
+  login: author?.login ?? "ghost",
+  avatar_url: author?.avatarUrl ?? "",
+});
+
+const toIssue = (node: GraphQLIssueNode): Issue => ({
+  number: node.number,
+  title: node.title,
+  state: node.state.toLowerCase(),
+  created_at: node.createdAt,
+  updated_at: node.updatedAt,
+  closed_at: node.closedAt,
+  user: toActor(node.author),
+  labels: node.labels.nodes.map(({ name, color }) => ({ name, color })),
+  html_url: node.url,
+});
+
+const toPullRequest = (node: GraphQLPullRequestNode): PullRequest => ({
+  number: node.number,
+  title: node.title,
+  // REST reports merged pull requests as closed
+  state: node.state === "OPEN" ? "open" : "closed",
+  created_at: node.createdAt,
+  updated_at: node.updatedAt,
+  closed_at: node.closedAt,
+  merged_at: node.mergedAt,
+  user: toActor(node.author),
+  html_url: node.url,
+});
+
+const toRepository = (repo: GraphQLRepositoryNode): Repository => ({
+  id: repo.databaseId,
+  name: repo.name,
+  full_name: repo.nameWithOwner,
+  description: repo.description,
+  html_url: repo.url,
+  stargazers_count: repo.stargazerCount,
+  // REST's watchers_count mirrors the star count
+  watchers_count: repo.stargazerCount,
+  forks_count: repo.forkCount,
+  // REST counts open pull requests as open issues too
+  open_issues_count: repo.openIssues.totalCount + repo.openPullRequests.totalCount,
+  open_pull_requests_count: repo.openPullRequests.totalCount,
+  language: repo.primaryLanguage?.name ?? null,
+  created_at: repo.createdAt,
+  updated_at: repo.updatedAt,
+  pushed_at: repo.pushedAt,
+  owner: {
+    login: repo.owner.login,
+    avatar_url: repo.owner.avatarUrl,
+    html_url: repo.owner.url,
+  },
+  license: repo.licenseInfo
+    ? { name: repo.licenseInfo.name, spdx_id: repo.licenseInfo.spdxId, url: repo.licenseInfo.url }
+    : undefined,
+  topics: repo.repositoryTopics.nodes.map((node) => node.topic.name),
+  default_branch: repo.defaultBranchRef?.name ?? "main",
+});
+
+const toRelease = (release: GraphQLReleaseNode): Release => ({
+  id: release.databaseId,
+  tag_name: release.tagName,
+  name: release.name,
+  created_at: release.createdAt,
+  published_at: release.publishedAt,
+  assets: release.releaseAssets.nodes.map((asset) => ({
+    download_count: asset.downloadCount,
+  })),
+  html_url: release.url,
+});
+
+const toDocResults = (repo: GraphQLRepositoryNode): DocCheckResult[] => {
+  const branch = repo.defaultBranchRef?.name ?? "main";
+  const docObjects = repo as unknown as GraphQLDocObjects;
+
+  return documentationFiles.map((file) => {
+    const paths = [file.path, ...(file.alternativePaths || [])];
+    for (const path of paths) {
+      const found = docObjects[`doc${docPaths.indexOf(path)}`];
+      if (found) {
+        const kind = found.__typename === "Tree" ? "tree" : "blob";
+        return { file, exists: true, url: `${repo.url}/${kind}/${branch}/${path}` };
+      }
+    }
+    return { file, exists: false };
+  });
+};
+
+// Walk a connection from its first page until the item or date cap is reached
+const collectConnection = async <TNode, TItem extends { created_at: string }>(
+  firstPage: GraphQLConnection<TNode>,
+  fetchPage: (cursor: string, page: number) => Promise<GraphQLConnection<TNode>>,
+  mapNode: (node: TNode) => TItem,
+  { maxItems = DEFAULT_MAX_ITEMS, since, onPage }: PaginationOptions<TItem> = {}
+): Promise<TItem[]> => {
+  const sinceTime = since ? new Date(since).getTime() : null;
+  const items: TItem[] = [];
+  let connection: GraphQLConnection<TNode> | null = firstPage;
+  let page = 1;
+
+  while (connection) {
+    const mapped = connection.nodes.map(mapNode);
+    const inRange = sinceTime === null
+      ? mapped
+      : mapped.filter((item) => new Date(item.created_at).getTime() >= sinceTime);
+    items.push(...inRange.slice(0, maxItems - items.length));
+
+    const cursor = connection.pageInfo.hasNextPage ? connection.pageInfo.endCursor : null;
+    const hasMore = Boolean(cursor) && inRange.length === mapped.length && items.length < maxItems;
+    onPage?.(items.slice(), { page, loaded: items.length, maxItems, done: !hasMore });
+
+    if (!hasMore) break;
+    page++;
+    try {
+      connection = await fetchPage(cursor as string, page);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      log.error(`Stopped paginating at page ${page}`, error);
+      onPage?.(items.slice(), { page: page - 1, loaded: items.length, maxItems, done: true });
+      connection = null;
+    }
+  }
+
+  return items;
+};
+
+// Fetch repository, issues, pull requests, releases and documentation presence in one query,
+// following cursors for the remaining issue and pull request pages. Rejects with an ApiError.
+export const fetchRepositoryBundle = async (
+  repoFullName: string,
+  options: RepositoryBundleOptions = {},
+  signal?: AbortSignal
+): Promise<RepositoryBundle> => {
+  const [owner, name] = repoFullName.split("/");
+
+  const data = await graphqlRequest(
+    BUNDLE_QUERY,
+    { owner, name, pageSize: PAGE_SIZE, releaseCount: options.releases ?? 10 },
+    hostCacheKey("graphql", repoFullName, "bundle"),
+    signal
+  );
+  const repo: GraphQLRepositoryNode | null = data.repository;
+  if (!repo) {
+    throw new NotFoundError();
+  }
+
+  const fetchPage = (query: string, kind: string) => async (cursor: string, page: number) => {
+    const pageData = await graphqlRequest(
+      query,
+      { owner, name, pageSize: PAGE_SIZE, cursor },
+      hostCacheKey("graphql", repoFullName, kind, "page", page),
+      signal
+    );
+    return pageData.repository.connection;
+  };
+
+  const [issues, pullRequests] = await Promise.all([
+    collectConnection(repo.issues, fetchPage(ISSUES_PAGE_QUERY, "issues"), toIssue, options.issues),
+    collectConnection(repo.pullRequests, fetchPage(PULL_REQUESTS_PAGE_QUERY, "pulls"), toPullRequest, options.pullRequests),
+  ]);
+
+  return {
+    repository: toRepository(repo),
+    issues,
+    pullRequests,
+    releases: repo.releases.nodes.map(toRelease),
+    docResults: toDocResults(repo),
+  };
+};
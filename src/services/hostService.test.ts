@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { buildCacheKey, cacheRepoId, parseCacheKey, repoCacheId } from "./hostService";
+
+describe("cache keys", () => {
+  it.each([
+    ["github.com", "facebook/react"],
+    ["ghe.corp:8443", "platform/api"],
+    ["localhost:7990", "PROJ/repo"],
+    ["[::1]:3000", "owner/repo"],
+  ])("round-trips %s", (host, repo) => {
+    const key = buildCacheKey("bitbucket-repo", host, repo);
+    expect(parseCacheKey(key)).toEqual({ resource: "bitbucket-repo", host, repo, rest: "" });
+  });
+
+  it("keeps colons in the rest of the key", () => {
+    const key = buildCacheKey("doc", "localhost:7990", "PROJ/repo", "docs/a:b.md", 2);
+    expect(parseCacheKey(key)).toEqual({ resource: "doc", host: "localhost:7990", repo: "PROJ/repo", rest: "docs/a:b.md:2" });
+  });
+
+  it("leaves keys of hosts without a port unchanged", () => {
+    expect(buildCacheKey("issues", "github.com", "facebook/react", "all")).toBe("issues:github.com:facebook/react:all");
+  });
+
+  it("groups keys by host and repository", () => {
+    const key = buildCacheKey("pulls", "ghe.corp:8443", "platform/api", "open");
+    expect(cacheRepoId(key)).toBe(repoCacheId("ghe.corp:8443", "platform/api"));
+    expect(cacheRepoId(key)).not.toBe(repoCacheId("ghe.corp:8444", "platform/api"));
+  });
+});
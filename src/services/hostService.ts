@@ -0,0 +1,131 @@
+// GitHub connections: github.com plus any saved GitHub Enterprise Server hosts
+export interface GitHubHost {
+  id: string; // Host name, also used to namespace cache keys
+  name: string;
+  apiBaseUrl: string;
+  graphqlUrl: string;
+  webBaseUrl: string;
+}
+
+const HOSTS_STORAGE_KEY = "gitalytics-hosts";
+const ACTIVE_HOST_STORAGE_KEY = "gitalytics-active-host";
+
+export const GITHUB_DOT_COM: GitHubHost = {
+  id: "github.com",
+  name: "GitHub.com",
+  apiBaseUrl: "https://api.github.com",
+  graphqlUrl: "https://api.github.com/graphql",
+  webBaseUrl: "https://github.com",
+};
+
+type HostListener = (host: GitHubHost) => void;
+
+// GHES serves REST under /api/v3 and GraphQL under /api/graphql
+const toEnterpriseHost = (url: string, name?: string): GitHubHost => {
+  const { origin, host } = new URL(/^https?:\/\//.test(url) ? url : `https://${url}`);
+  if (host === GITHUB_DOT_COM.id || host === "api.github.com") {
+    return GITHUB_DOT_COM;
+  }
+  return {
+    id: host,
+    name: name?.trim() || host,
+    apiBaseUrl: `${origin}/api/v3`,
+    graphqlUrl: `${origin}/api/graphql`,
+    webBaseUrl: origin,
+  };
+};
+
+class HostService {
+  private hosts: GitHubHost[] = this.readHosts();
+  private activeId: string = localStorage.getItem(ACTIVE_HOST_STORAGE_KEY) || GITHUB_DOT_COM.id;
+  private listeners = new Set<HostListener>();
+
+  getHosts(): GitHubHost[] {
+    return [GITHUB_DOT_COM, ...this.hosts];
+  }
+
+  getActiveHost(): GitHubHost {
+    return this.getHosts().find((host) => host.id === this.activeId) || GITHUB_DOT_COM;
+  }
+
+  setActiveHost(id: string): void {
+    this.activeId = id;
+    localStorage.setItem(ACTIVE_HOST_STORAGE_KEY, id);
+    this.emit();
+  }
+
+  // Save a GHES connection from its web URL (e.g. https://github.example.com)
+  addHost(url: string, name?: string): GitHubHost {
+    const host = toEnterpriseHost(url, name);
+    if (host !== GITHUB_DOT_COM) {
+      this.hosts = [...this.hosts.filter((saved) => saved.id !== host.id), host];
+      this.writeHosts();
+    }
+    return host;
+  }
+
+  removeHost(id: string): void {
+    this.hosts = this.hosts.filter((host) => host.id !== id);
+    this.writeHosts();
+    if (this.activeId === id) {
+      this.setActiveHost(GITHUB_DOT_COM.id);
+    }
+  }
+
+  subscribe(listener: HostListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private readHosts(): GitHubHost[] {
+    try {
+      return JSON.parse(localStorage.getItem(HOSTS_STORAGE_KEY) || "[]");
+    } catch {
+      return [];
+    }
+  }
+
+  private writeHosts(): void {
+    localStorage.setItem(HOSTS_STORAGE_KEY, JSON.stringify(this.hosts));
+  }
+
+  private emit(): void {
+    const host = this.getActiveHost();
+    this.listeners.forEach((listener) => listener(host));
+  }
+}
+
+export const hostService = new HostService();
+
+// Hosts can carry a port (ghe.example.com:8443), so they are URI-encoded wherever ":" separates fields
+const encodeHost = (hostId: string) => encodeURIComponent(hostId);
+
+// Namespace a cache key by host: `${resource}:${host}:${owner/repo}[:${rest}]`
+export const buildCacheKey = (
+  resource: string,
+  hostId: string,
+  repoFullName: string,
+  ...rest: (string | number)[]
+): string => [resource, encodeHost(hostId), repoFullName, ...rest].join(":");
+
+// Inverse of buildCacheKey. Only the rest may contain ":", e.g. a file path.
+export const parseCacheKey = (key: string) => {
+  const [resource, host = "", repo = "", ...rest] = key.split(":");
+  return { resource, host: decodeURIComponent(host), repo, rest: rest.join(":") };
+};
+
+// Identifies one repository on one host, as `${host}:${owner/repo}`; the by-repo index holds these
+export const repoCacheId = (hostId: string, repoFullName: string): string =>
+  `${encodeHost(hostId)}:${repoFullName}`;
+
+// Host and repository a cache key belongs to
+export const cacheRepoId = (key: string): string => {
+  const { host, repo } = parseCacheKey(key);
+  return repoCacheId(host, repo);
+};
+
+// Cache key on the active GitHub connection
+export const hostCacheKey = (resource: string, repoFullName: string, ...rest: (string | number)[]): string =>
+  buildCacheKey(resource, hostService.getActiveHost().id, repoFullName, ...rest);
@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { IDBFactory } from "fake-indexeddb";
+import { daysAgo, json, serveFixtures } from "@/test/forge";
+
+const REPO_URL = "https://api.github.com/repos/facebook/react";
+const KEY = "repo:github.com:facebook/react";
+const ISSUES_URL = "https://api.github.com/repos/facebook/react/issues";
+const ISSUES_KEY = "issues:github.com:facebook/react";
+
+interface PendingFetch {
+  signal: AbortSignal;
+  respond: (data: unknown) => void;
+}
+
+describe("fetchWithCache", () => {
+  let pending: PendingFetch[];
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  // Fresh modules, so no cache entries or in-flight requests carry over between tests
+  const loadFetchWithCache = async () => (await import("./httpClient")).fetchWithCache;
+
+  // The shared request reads the cache before it goes to the network
+  const waitForFetches = (count: number) => vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(count));
+
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    pending = [];
+    fetchMock = vi.fn(
+      (_url: string, init: RequestInit) =>
+        new Promise<Response>((resolve, reject) => {
+          init.signal.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")));
+          pending.push({
+            signal: init.signal,
+            respond: (data) => resolve(new Response(JSON.stringify(data), { status: 200 })),
+          });
+        })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("shares one request between identical callers", async () => {
+    const fetchWithCache = await loadFetchWithCache();
+    const first = fetchWithCache(REPO_URL, KEY, { signal: new AbortController().signal });
+    const second = fetchWithCache(REPO_URL, KEY, { signal: new AbortController().signal });
+
+    await waitForFetches(1);
+    pending[0].respond({ id: 1 });
+
+    await expect(first).resolves.toEqual({ id: 1 });
+    await expect(second).resolves.toEqual({ id: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the request running while another caller still waits", async () => {
+    const fetchWithCache = await loadFetchWithCache();
+    const aborted = new AbortController();
+    const first = fetchWithCache(REPO_URL, KEY, { signal: aborted.signal });
+    const second = fetchWithCache(REPO_URL, KEY, { signal: new AbortController().signal });
+
+    await waitForFetches(1);
+    aborted.abort();
+    await expect(first).rejects.toMatchObject({ name: "AbortError" });
+    expect(pending[0].signal.aborted).toBe(false);
+
+    pending[0].respond({ id: 1 });
+    await expect(second).resolves.toEqual({ id: 1 });
+  });
+
+  it("aborts the request once every caller has aborted", async () => {
+    const fetchWithCache = await loadFetchWithCache();
+    const callers = [new AbortController(), new AbortController()];
+    const requests = callers.map((caller) => fetchWithCache(REPO_URL, KEY, { signal: caller.signal }));
+
+    await waitForFetches(1);
+    callers[0].abort();
+    expect(pending[0].signal.aborted).toBe(false);
+    callers[1].abort();
+    expect(pending[0].signal.aborted).toBe(true);
+    for (const request of requests) {
+      await expect(request).rejects.toMatchObject({ name: "AbortError" });
+    }
+
+    // The aborted request isn't shared with later callers
+    const retry = fetchWithCache(REPO_URL, KEY, { signal: new AbortController().signal });
+    await waitForFetches(2);
+    pending[1].respond({ id: 2 });
+    await expect(retry).resolves.toEqual({ id: 2 });
+  });
+
+  it("turns away a caller that aborted before asking", async () => {
+    const fetchWithCache = await loadFetchWithCache();
+    const early = new AbortController();
+    early.abort();
+    await expect(fetchWithCache(REPO_URL, KEY, { signal: early.signal })).rejects.toMatchObject({ name: "AbortError" });
+
+    // Only the caller that joined counts, so its abort stops the request
+    const caller = new AbortController();
+    const request = fetchWithCache(REPO_URL, KEY, { signal: caller.signal });
+    await waitForFetches(1);
+    caller.abort();
+    await expect(request).rejects.toMatchObject({ name: "AbortError" });
+    expect(pending[0].signal.aborted).toBe(true);
+  });
+});
+
+describe("fetchPaginated", () => {
+  const loadFetchPaginated = async () => (await import("./httpClient")).fetchPaginated;
+
+  const issue = (number: number, days = number) => ({ number, created_at: daysAgo(days) });
+  type Issue = ReturnType<typeof issue>;
+
+  // Pages of issues chained by Link headers, answered by the page query parameter
+  const servePages = (pages: Record<string, object[] | undefined>) =>
+    serveFixtures({
+      "/repos/facebook/react/issues": (url: URL) => {
+        const page = Number(url.searchParams.get("page") || "1");
+        const items = pages[page];
+        if (!items) return undefined;
+        return pages[page + 1]
+          ? json(items, { Link: `<${ISSUES_URL}?page=${page + 1}>; rel="next", <${ISSUES_URL}?page=9>; rel="last"` })
+          : json(items);
+      },
+    });
+
+  const pagesRequested = (fetchMock: ReturnType<typeof servePages>) =>
+    fetchMock.mock.calls.map(([url]) => new URL(url).searchParams.get("page") || "1");
+
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("follows Link headers and caches every page under its own key", async () => {
+    const fetchMock = servePages({ 1: [issue(1), issue(2)], 2: [issue(3)], 3: [issue(4)] });
+    const fetchPaginated = await loadFetchPaginated();
+    const onPage = vi.fn();
+
+    const issues = await fetchPaginated<Issue>(ISSUES_URL, ISSUES_KEY, { onPage });
+    expect(issues.map(({ number }) => number)).toEqual([1, 2, 3, 4]);
+    expect(onPage.mock.calls.map(([, progress]) => [progress.page, progress.loaded, progress.done])).toEqual([
+      [1, 2, false],
+      [2, 3, false],
+      [3, 4, true],
+    ]);
+
+    // Loading again chains the cached pages without going to the network
+    await expect(fetchPaginated<Issue>(ISSUES_URL, ISSUES_KEY, {})).resolves.toHaveLength(4);
+    expect(pagesRequested(fetchMock)).toEqual(["1", "2", "3"]);
+  });
+
+  it("stops at the page that crosses the since date", async () => {
+    const fetchMock = servePages({ 1: [issue(1), issue(2)], 2: [issue(3), issue(40)], 3: [issue(41)] });
+    const fetchPaginated = await loadFetchPaginated();
+
+    const issues = await fetchPaginated<Issue>(ISSUES_URL, ISSUES_KEY, { since: daysAgo(30) });
+    expect(issues.map(({ number }) => number)).toEqual([1, 2, 3]);
+    expect(pagesRequested(fetchMock)).toEqual(["1", "2"]);
+  });
+
+  it("counts only filtered items towards the item cap", async () => {
+    const fetchMock = servePages({ 1: [issue(1), issue(2)], 2: [issue(3), issue(4), issue(6)], 3: [issue(8)] });
+    const fetchPaginated = await loadFetchPaginated();
+
+    const issues = await fetchPaginated<Issue>(ISSUES_URL, ISSUES_KEY, {
+      maxItems: 2,
+      filter: ({ number }) => number % 2 === 0,
+    });
+    expect(issues.map(({ number }) => number)).toEqual([2, 4]);
+    expect(pagesRequested(fetchMock)).toEqual(["1", "2"]);
+  });
+
+  it("keeps the pages already loaded when a later page fails", async () => {
+    const first = issue(1);
+    const fetchMock = serveFixtures({
+      "/repos/facebook/react/issues": (url: URL) =>
+        url.searchParams.get("page") === "2" ? undefined : json([first], { Link: `<${ISSUES_URL}?page=2>; rel="next"` }),
+    });
+    const fetchPaginated = await loadFetchPaginated();
+    const onPage = vi.fn();
+
+    await expect(fetchPaginated<Issue>(ISSUES_URL, ISSUES_KEY, { onPage })).resolves.toEqual([first]);
+    expect(onPage).toHaveBeenLastCalledWith([first], { page: 1, loaded: 1, maxItems: 1000, done: true });
+    expect(pagesRequested(fetchMock)).toEqual(["1", "2"]);
+  });
+
+  it("fails when the first page does", async () => {
+    servePages({});
+    const fetchPaginated = await loadFetchPaginated();
+    await expect(fetchPaginated<Issue>(ISSUES_URL, ISSUES_KEY, {})).rejects.toMatchObject({ kind: "not-found" });
+  });
+});
@@ -0,0 +1,398 @@
+import { CacheEntry, CacheTtl, cacheService } from "./cacheService";
+import { rateLimitService } from "./rateLimitService";
+import { createLogger } from "./logger";
+import { readRateLimitHeaders, RequestRecord, requestLog } from "./requestLog";
+import {
+  ApiError,
+  createAbortError,
+  errorFromResponse,
+  isAbortError,
+  isRateLimitResponse,
+  NetworkError,
+  NotFoundError,
+  ServerError,
+  StatsPendingError,
+} from "./apiErrors";
+
+const log = createLogger("http");
+
+export interface PaginationProgress {
+  page: number;
+  loaded: number;
+  maxItems: number;
+  done: boolean;
+}
+
+// Caps for list endpoints that follow a Link header
+export interface PaginationOptions<T> {
+  maxItems?: number; // Stop once this many items are loaded
+  since?: string; // ISO date; stop once items were created before it (needs a created_at field)
+  filter?: (item: T) => boolean; // Only matching items are kept and count towards maxItems
+  onPage?: (items: T[], progress: PaginationProgress) => void;
+}
+
+// Default item cap for paginated lists
+export const DEFAULT_MAX_ITEMS = 1000;
+
+// Per-attempt request setup; resolved before every try so auth can rotate between retries
+export interface Authorization {
+  options: RequestInit;
+  onResponse?: (response: Response) => void;
+}
+
+// How a provider talks to its API
+export interface RequestConfig {
+  authorize?: () => Promise<Authorization>;
+  rateLimitResource?: string; // Budget in rateLimitService to draw from, if any
+  retries?: number;
+  parse?: (response: Response) => Promise<unknown>;
+  method?: RequestRecord["method"]; // GET unless given
+  body?: string; // Sent with every attempt, e.g. a GraphQL query
+  signal?: AbortSignal; // Rejects with an AbortError once aborted
+  ttl?: CacheTtl; // Overrides the cache policy for this key, e.g. null for data that never changes
+}
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+};
+
+// setTimeout as a promise that rejects early when the signal aborts
+export const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    throwIfAborted(signal);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Only transient failures are worth retrying; pending statistics are polled by the caller instead
+const isRetryable = (error: unknown) =>
+  !(error instanceof StatsPendingError) &&
+  (error instanceof NetworkError || (error instanceof ServerError && (error.status === null || error.status >= 500)));
+
+export const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// Expired cache entries stand in for requests that fail while offline, on flaky networks, on server
+// errors or when rate-limited. Missing and forbidden resources are never papered over.
+export const canServeStale = (error: unknown) =>
+  error instanceof ApiError && (error.kind === "network" || error.kind === "server" || error.kind === "rate-limited");
+
+// Oldest expired or imported entry served to each caller, keyed by the caller's signal so the whole load
+// shares one answer
+const staleServed = new WeakMap<AbortSignal, number>();
+const importedServed = new WeakSet<AbortSignal>();
+
+// Record a cache entry answering a caller. Expired entries and imported snapshots aren't live data,
+// so they are dated by when they were cached.
+export const markServed = (signal: AbortSignal | undefined, entry: CacheEntry, expired: boolean) => {
+  if (!signal) return;
+  if (expired || entry.importedAt) {
+    staleServed.set(signal, Math.min(staleServed.get(signal) ?? entry.timestamp, entry.timestamp));
+  }
+  if (entry.importedAt) {
+    importedServed.add(signal);
+  }
+};
+
+// When the oldest data served under this signal was cached; null when everything was live
+export const getStaleTimestamp = (signal: AbortSignal): number | null => staleServed.get(signal) ?? null;
+
+// Whether anything served under this signal came from an imported snapshot
+export const wasImported = (signal: AbortSignal): boolean => importedServed.has(signal);
+
+interface CacheResult {
+  data: CacheEntry["data"];
+  cached: CacheEntry | null; // The entry that answered instead of the network, if any
+  expired: boolean;
+}
+
+// A request shared by every caller asking for the same URL while it runs
+interface InFlightRequest {
+  promise: Promise<CacheResult>;
+  controller: AbortController;
+  waiting: number; // Callers still interested; the request is aborted when this drops to zero
+}
+
+const inFlight = new Map<string, InFlightRequest>();
+
+// Fetch through the cache. Failures reject with an ApiError; 404s are cached too.
+// Identical requests made while one is already running share it instead of hitting the API again.
+export const fetchWithCache = async (
+  url: string,
+  cacheKey: string,
+  config: RequestConfig = {}
+): Promise<CacheEntry["data"]> => {
+  const { signal, ...requestConfig } = config;
+  throwIfAborted(signal);
+
+  const key = `${cacheKey} ${url}`;
+  let request = inFlight.get(key);
+  if (!request) {
+    const controller = new AbortController();
+    const created: InFlightRequest = {
+      controller,
+      waiting: 0,
+      promise: fetchAndCache(url, cacheKey, requestConfig, controller.signal).finally(() => {
+        if (inFlight.get(key) === created) {
+          inFlight.delete(key);
+        }
+      }),
+    };
+    inFlight.set(key, created);
+    request = created;
+  }
+  request.waiting++;
+
+  const result = await (signal ? waitFor(request, key, signal) : request.promise);
+  if (result.cached) {
+    markServed(signal, result.cached, result.expired);
+  }
+  return result.data;
+};
+
+// An aborted caller stops waiting right away; the request itself only stops once nobody needs it
+const waitFor = (shared: InFlightRequest, key: string, signal: AbortSignal) =>
+  new Promise<CacheResult>((resolve, reject) => {
+    const onAbort = () => {
+      shared.waiting--;
+      if (shared.waiting === 0) {
+        if (inFlight.get(key) === shared) {
+          inFlight.delete(key);
+        }
+        shared.controller.abort();
+      }
+      reject(createAbortError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    shared.promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+
+// Every request lands in the request log, whether the cache or the API answered it
+const fetchAndCache = async (
+  url: string,
+  cacheKey: string,
+  config: RequestConfig,
+  signal: AbortSignal
+): Promise<CacheResult> => {
+  const record = requestLog.start(url, cacheKey, config.method);
+  try {
+    const result = await resolveRequest(url, cacheKey, config, signal, record);
+    requestLog.finish(record);
+    return result;
+  } catch (error) {
+    requestLog.finish(record, error);
+    throw error;
+  }
+};
+
+const resolveRequest = async (
+  url: string,
+  cacheKey: string,
+  config: RequestConfig,
+  signal: AbortSignal,
+  record: RequestRecord
+): Promise<CacheResult> => {
+  // Try to get from cache first, including 404 responses
+  const cachedEntry = await cacheService.getEntry(cacheKey);
+  const serveCached = (expired: boolean): CacheResult => {
+    record.cache = expired ? "stale" : "hit";
+    // If we cached a 404, throw it
+    if (cachedEntry.data?.status === 404) {
+      record.status = 404;
+      throw new NotFoundError(url);
+    }
+    return { data: cachedEntry.data, cached: cachedEntry, expired };
+  };
+
+  if (cachedEntry && !cacheService.isExpired(cachedEntry)) {
+    return serveCached(false);
+  }
+
+  // No point waiting for retries to time out when the browser knows it is offline
+  if (isOffline()) {
+    if (cachedEntry) {
+      return serveCached(true);
+    }
+    throw new NetworkError(url);
+  }
+
+  try {
+    const data = await fetchFromApi(url, cacheKey, config, signal, cachedEntry, record);
+    return { data, cached: null, expired: false };
+  } catch (error) {
+    if (cachedEntry && canServeStale(error)) {
+      log.warn(`Serving expired cache for ${cacheKey}`, error);
+      return serveCached(true);
+    }
+    throw error;
+  }
+};
+
+const fetchFromApi = async (
+  url: string,
+  cacheKey: string,
+  config: RequestConfig,
+  signal: AbortSignal,
+  cachedEntry: CacheEntry | null,
+  record: RequestRecord
+): Promise<CacheEntry["data"]> => {
+  const {
+    authorize = async (): Promise<Authorization> => ({ options: {} }),
+    rateLimitResource,
+    retries = 2,
+    parse = (response: Response) => response.json(),
+    method,
+    body,
+    ttl
+  } = config;
+
+  // Expired entries with an ETag/Last-Modified are revalidated instead of refetched
+  const conditionalHeaders = cacheService.getConditionalHeaders(cachedEntry);
+
+  // If not in cache, fetch from API with retry logic
+  let lastError;
+  for (let i = 0; i <= retries; i++) {
+    try {
+      const { options, onResponse } = await authorize();
+      if (rateLimitResource) {
+        await rateLimitService.acquire(rateLimitResource, signal);
+      }
+      throwIfAborted(signal);
+      record.attempts++;
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          ...options,
+          method,
+          body,
+          headers: { ...options.headers, ...conditionalHeaders },
+          signal
+        });
+      } catch (error) {
+        throw isAbortError(error) ? error : new NetworkError(url, error);
+      }
+      onResponse?.(response);
+      record.status = response.status;
+      record.rateLimit = readRateLimitHeaders(response.headers);
+
+      // Not modified - GitHub doesn't count these against the rate limit
+      if (response.status === 304 && cachedEntry) {
+        record.cache = "revalidated";
+        await cacheService.touch(cacheKey);
+        return cachedEntry.data;
+      }
+
+      // Handle rate limiting - the retry may use another token, or acquire() defers it until the reset
+      if (isRateLimitResponse(response) && i < retries) {
+        continue;
+      }
+
+      // Handle 404s - cache them too
+      if (response.status === 404) {
+        const notFoundData = { status: 404, url };
+        await cacheService.set(cacheKey, notFoundData);
+        throw new NotFoundError(url);
+      }
+
+      // Statistics still being computed - never cache the empty placeholder
+      if (response.status === 202) {
+        throw new StatsPendingError(url);
+      }
+
+      if (!response.ok) {
+        throw errorFromResponse(response, url);
+      }
+
+      const data = await parse(response);
+
+      // Cache successful response along with its validators
+      await cacheService.set(cacheKey, data, {
+        etag: response.headers.get('ETag'),
+        lastModified: response.headers.get('Last-Modified')
+      }, ttl);
+
+      return data;
+    } catch (error) {
+      lastError = error;
+      // Pending statistics are handled by polling; everything else but transient failures is final
+      if (!isRetryable(error)) {
+        throw error;
+      }
+      if (i < retries) {
+        await delay(1000 * (i + 1), signal);
+      }
+    }
+  }
+
+  throw lastError;
+};
+
+// Extract the rel="next" URL from a Link header
+export const getNextPageUrl = (linkHeader: string | null): string | null => {
+  if (!linkHeader) return null;
+  const next = linkHeader.split(',').find(part => part.includes('rel="next"'));
+  const match = next?.match(/<([^>]+)>/);
+  return match ? match[1] : null;
+};
+
+// Keep the next page URL next to the items so cached pages can be chained
+const parsePage = async (response: Response) => ({
+  items: await response.json(),
+  next: getNextPageUrl(response.headers.get('Link'))
+});
+
+// Follow Link headers page by page until the item or date cap is reached.
+// Each page is cached under its own key so partially loaded lists can resume.
+export const fetchPaginated = async <T extends object>(
+  url: string,
+  cacheKeyPrefix: string,
+  { maxItems = DEFAULT_MAX_ITEMS, since, filter, onPage }: PaginationOptions<T>,
+  config: RequestConfig = {}
+): Promise<T[]> => {
+  const sinceTime = since ? new Date(since).getTime() : null;
+  const items: T[] = [];
+  let nextUrl: string | null = url;
+  let page = 0;
+
+  while (nextUrl && items.length < maxItems) {
+    page++;
+    let pageData: { items: T[]; next: string | null };
+    try {
+      pageData = await fetchWithCache(nextUrl, `${cacheKeyPrefix}:page:${page}`, { parse: parsePage, ...config });
+    } catch (error) {
+      // Without a first page there is nothing to show; later failures keep what we have
+      if (page === 1 || isAbortError(error)) throw error;
+      log.error(`Stopped paginating ${cacheKeyPrefix} at page ${page}`, error);
+      onPage?.(items.slice(), { page: page - 1, loaded: items.length, maxItems, done: true });
+      break;
+    }
+
+    const inRange = sinceTime === null
+      ? pageData.items
+      : pageData.items.filter(item => new Date((item as { created_at?: string }).created_at).getTime() >= sinceTime);
+    const kept = filter ? inRange.filter(filter) : inRange;
+    items.push(...kept.slice(0, maxItems - items.length));
+
+    // Results are sorted newest first, so nothing after a page that crosses the date cap is needed
+    nextUrl = inRange.length < pageData.items.length ? null : pageData.next;
+
+    onPage?.(items.slice(), {
+      page,
+      loaded: items.length,
+      maxItems,
+      done: !nextUrl || items.length >= maxItems
+    });
+  }
+
+  return items;
+};
@@ -0,0 +1,82 @@
+// Structured logging: records are kept in memory for the diagnostics drawer and echoed to the console.
+// Debug records are dropped unless debug logging is switched on.
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export interface LogRecord {
+  id: number;
+  time: number;
+  level: LogLevel;
+  scope: string; // Module that wrote it, e.g. "cache"
+  message: string;
+  data?: unknown;
+}
+
+type LogListener = (records: LogRecord[]) => void;
+
+const DEBUG_STORAGE_KEY = "gitalytics-debug";
+const MAX_RECORDS = 500;
+
+// Errors serialize to {} in JSON, so keep what identifies them
+const toRecordData = (data: unknown) =>
+  data instanceof Error ? { name: data.name, message: data.message } : data;
+
+class LoggerService {
+  private debugEnabled = localStorage.getItem(DEBUG_STORAGE_KEY) === "true";
+  private records: LogRecord[] = [];
+  private nextId = 1;
+  private listeners = new Set<LogListener>();
+
+  isDebugEnabled(): boolean {
+    return this.debugEnabled;
+  }
+
+  setDebugEnabled(enabled: boolean): void {
+    this.debugEnabled = enabled;
+    localStorage.setItem(DEBUG_STORAGE_KEY, String(enabled));
+  }
+
+  write(level: LogLevel, scope: string, message: string, data?: unknown): void {
+    if (level === "debug" && !this.debugEnabled) return;
+
+    const record: LogRecord = { id: this.nextId++, time: Date.now(), level, scope, message };
+    if (data !== undefined) {
+      record.data = toRecordData(data);
+    }
+    this.records = [...this.records.slice(-(MAX_RECORDS - 1)), record];
+
+    const args = data === undefined ? [] : [data];
+    console[level](`[${scope}] ${message}`, ...args);
+    this.emit();
+  }
+
+  getRecords(): LogRecord[] {
+    return this.records;
+  }
+
+  clear(): void {
+    this.records = [];
+    this.emit();
+  }
+
+  subscribe(listener: LogListener): () => void {
+    this.listeners.add(listener);
+    listener(this.records);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(): void {
+    this.listeners.forEach((listener) => listener(this.records));
+  }
+}
+
+export const logger = new LoggerService();
+
+// Logger for one module
+export const createLogger = (scope: string) => ({
+  debug: (message: string, data?: unknown) => logger.write("debug", scope, message, data),
+  info: (message: string, data?: unknown) => logger.write("info", scope, message, data),
+  warn: (message: string, data?: unknown) => logger.write("warn", scope, message, data),
+  error: (message: string, data?: unknown) => logger.write("error", scope, message, data),
+});
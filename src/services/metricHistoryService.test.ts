@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { IDBFactory } from "fake-indexeddb";
+import { buildTrend, MetricSnapshot, MetricValues } from "./metricHistoryService";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2024, 4, 31, 12).getTime();
+const REPO = "https://github.com/facebook/react";
+
+// Local day key of the given number of days ago, as the service records it
+const daysAgo = (days: number) => new Date(NOW - days * DAY).toLocaleDateString("en-CA");
+
+const snapshot = (days: number, values: MetricValues): MetricSnapshot => ({
+  repo: REPO,
+  date: daysAgo(days),
+  recordedAt: NOW - days * DAY,
+  ...values,
+});
+
+describe("buildTrend", () => {
+  beforeEach(() => {
+    vi.spyOn(Date, "now").mockReturnValue(NOW);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("measures the change from the last day recorded before the period", () => {
+    const history = [
+      snapshot(20, { stars: 80 }),
+      snapshot(9, { stars: 90 }),
+      snapshot(5, { stars: 95 }),
+      snapshot(1, { stars: 110 }),
+    ];
+    expect(buildTrend(history, "stars", "week")).toEqual({ points: [95, 110], delta: 20, since: daysAgo(9) });
+    expect(buildTrend(history, "stars", "month")).toEqual({ points: [80, 90, 95, 110], delta: 30, since: daysAgo(20) });
+  });
+
+  it("measures from the first day while the history is younger than the period", () => {
+    const history = [snapshot(3, { forks: 4 }), snapshot(0, { forks: 7 })];
+    expect(buildTrend(history, "forks", "month")).toEqual({ points: [4, 7], delta: 3, since: daysAgo(3) });
+  });
+
+  it("has no change to report from a single day", () => {
+    expect(buildTrend([snapshot(0, { stars: 5 })], "stars", "week")).toEqual({ points: [5], delta: null, since: null });
+  });
+
+  it("skips days the metric couldn't be computed", () => {
+    const history = [
+      snapshot(10, { prMergeTime: 4 * DAY }),
+      snapshot(4, { prMergeTime: null, stars: 1 }),
+      snapshot(2, { stars: 2 }),
+      snapshot(1, { prMergeTime: 3 * DAY }),
+    ];
+    expect(buildTrend(history, "prMergeTime", "week")).toEqual({ points: [3 * DAY], delta: -DAY, since: daysAgo(10) });
+  });
+
+  it("keeps the sparkline empty without recent values", () => {
+    expect(buildTrend([snapshot(40, { stars: 5 })], "stars", "week")).toEqual({
+      points: [],
+      delta: null,
+      since: daysAgo(40),
+    });
+  });
+});
+
+describe("metricHistoryService", () => {
+  let now = NOW;
+
+  // A fresh service and database for every test
+  const loadMetricHistoryService = async () => (await import("./metricHistoryService")).metricHistoryService;
+
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    now = NOW;
+    vi.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("merges the values recorded on one day and keeps each day apart", async () => {
+    const metricHistoryService = await loadMetricHistoryService();
+    now = NOW - DAY;
+    await metricHistoryService.record(REPO, { stars: 10, forks: 2 });
+    now = NOW;
+    await metricHistoryService.record(REPO, { stars: 12 });
+    await metricHistoryService.record(REPO, { docScore: 80, prMergeTime: null });
+    await metricHistoryService.record("https://gitlab.com/group/project", { stars: 1 });
+
+    const history = await metricHistoryService.getHistory(REPO);
+    expect(history.map(({ date, stars, forks, docScore }) => ({ date, stars, forks, docScore }))).toEqual([
+      { date: daysAgo(1), stars: 10, forks: 2, docScore: undefined },
+      { date: daysAgo(0), stars: 12, forks: undefined, docScore: 80 },
+    ]);
+  });
+});
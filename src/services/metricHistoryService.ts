@@ -0,0 +1,115 @@
+import { cacheService } from "./cacheService";
+import { METRICS_STORE } from "./database";
+import { createLogger } from "./logger";
+
+const log = createLogger("metrics");
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Values recorded for a repository; a field is left out when it couldn't be computed that day
+export interface MetricValues {
+  stars?: number;
+  forks?: number;
+  watchers?: number;
+  openIssues?: number;
+  issueResolutionTime?: number | null; // Average, in milliseconds
+  prMergeTime?: number | null; // Average, in milliseconds
+  docScore?: number;
+}
+
+export type MetricName = keyof MetricValues;
+
+// The last values seen on one day
+export interface MetricSnapshot extends MetricValues {
+  repo: string; // Repository web URL, unique across forges and hosts
+  date: string; // Local day, YYYY-MM-DD
+  recordedAt: number;
+}
+
+export type TrendPeriod = "week" | "month";
+
+export interface MetricTrend {
+  points: number[]; // One per recorded day in the period, oldest first
+  delta: number | null; // Change since `since`; null without an earlier value to compare with
+  since: string | null; // Day the delta is measured from
+}
+
+const PERIOD_DAYS: Record<TrendPeriod, number> = { week: 7, month: 30 };
+
+// en-CA formats dates as YYYY-MM-DD, so keys sort by date
+const toDateKey = (timestamp: number) => new Date(timestamp).toLocaleDateString("en-CA");
+
+const valueOf = (snapshot: MetricSnapshot, metric: MetricName): number | null => {
+  const value = snapshot[metric];
+  return typeof value === "number" ? value : null;
+};
+
+// Sparkline points and the change over the period. The change is measured from the last day recorded
+// before the period, or from its first day while the history is younger than that.
+export const buildTrend = (history: MetricSnapshot[], metric: MetricName, period: TrendPeriod): MetricTrend => {
+  const start = toDateKey(Date.now() - PERIOD_DAYS[period] * DAY);
+  const recorded = history.filter((snapshot) => valueOf(snapshot, metric) !== null);
+  const recent = recorded.filter((snapshot) => snapshot.date >= start);
+  const earlier = recorded.filter((snapshot) => snapshot.date < start);
+
+  const points = recent.map((snapshot) => valueOf(snapshot, metric));
+  const baseline = earlier.length > 0 ? earlier[earlier.length - 1] : recent.length > 1 ? recent[0] : null;
+  const latest = recent[recent.length - 1];
+
+  return {
+    points,
+    delta: baseline && latest ? valueOf(latest, metric) - valueOf(baseline, metric) : null,
+    since: baseline ? baseline.date : null,
+  };
+};
+
+class MetricHistoryService {
+  // Merge today's values into the repository's snapshot for the day
+  async record(repo: string, values: MetricValues): Promise<void> {
+    const defined = Object.fromEntries(
+      Object.entries(values).filter(([, value]) => value !== undefined && value !== null)
+    );
+    if (Object.keys(defined).length === 0) return;
+
+    const db = await cacheService.getDatabase();
+    if (!db) return;
+
+    const date = toDateKey(Date.now());
+    return new Promise((resolve) => {
+      const transaction = db.transaction([METRICS_STORE], 'readwrite');
+      const store = transaction.objectStore(METRICS_STORE);
+      const request = store.get([repo, date]);
+
+      request.onsuccess = () => {
+        const snapshot: MetricSnapshot = { ...request.result, ...defined, repo, date, recordedAt: Date.now() };
+        store.put(snapshot);
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => {
+        log.error("Error recording metrics", transaction.error);
+        resolve();
+      };
+    });
+  }
+
+  // Snapshots of the last `days` days, oldest first
+  async getHistory(repo: string, days = PERIOD_DAYS.month * 2): Promise<MetricSnapshot[]> {
+    const db = await cacheService.getDatabase();
+    if (!db) return [];
+
+    const range = IDBKeyRange.bound([repo, toDateKey(Date.now() - days * DAY)], [repo, "\uffff"]);
+    return new Promise((resolve) => {
+      const transaction = db.transaction([METRICS_STORE], 'readonly');
+      const request = transaction.objectStore(METRICS_STORE).getAll(range);
+
+      request.onsuccess = () => resolve(request.result as MetricSnapshot[]);
+      request.onerror = () => {
+        log.error("Error reading metric history", request.error);
+        resolve([]);
+      };
+    });
+  }
+}
+
+export const metricHistoryService = new MetricHistoryService();
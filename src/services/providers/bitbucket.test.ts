@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { IDBFactory } from "fake-indexeddb";
+import { daysAgo, serveFixtures } from "@/test/forge";
+
+const CLOUD_API = "/2.0/repositories/atlassian/stash";
+const DC_API = "/rest/api/1.0/projects/PROJ/repos/repo";
+
+const cloudUser = (nickname: string) => ({
+  display_name: nickname.toUpperCase(),
+  nickname,
+  links: { avatar: { href: `https://avatars/${nickname}` }, html: { href: `https://bitbucket.org/${nickname}` } },
+});
+
+const cloudPullRequest = (id: number, state: string) => ({
+  id,
+  title: `PR ${id}`,
+  state,
+  created_on: daysAgo(10),
+  updated_on: daysAgo(1),
+  author: cloudUser("jane"),
+  links: { html: { href: `https://bitbucket.org/atlassian/stash/pull-requests/${id}` } },
+});
+
+const dcPullRequest = (id: number, state: string, closedDate?: number) => ({
+  id,
+  title: `PR ${id}`,
+  state,
+  createdDate: Date.parse(daysAgo(10)),
+  updatedDate: Date.parse(daysAgo(1)),
+  closedDate,
+  author: { user: { name: "jane", displayName: "Jane", slug: "jane" } },
+  links: { self: [{ href: `https://git.corp/projects/PROJ/repos/repo/pull-requests/${id}` }] },
+});
+
+describe("Bitbucket providers", () => {
+  // Fresh modules, so neither the cache nor saved tokens carry over between tests
+  const load = async () => ({
+    ...(await import("./bitbucket")),
+    forgeTokenService: (await import("../forgeTokenService")).forgeTokenService,
+  });
+
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("Cloud", () => {
+    const cloud = async () => {
+      const { createBitbucketCloudProvider } = await load();
+      return createBitbucketCloudProvider("https://bitbucket.org", "https://api.bitbucket.org/2.0");
+    };
+
+    it("maps the repository with its watcher and fork counts", async () => {
+      serveFixtures({
+        [CLOUD_API]: {
+          name: "stash",
+          full_name: "atlassian/stash",
+          description: "Git server",
+          language: "java",
+          created_on: "2020-01-01T00:00:00Z",
+          updated_on: "2024-05-01T00:00:00Z",
+          mainbranch: { name: "master" },
+          owner: cloudUser("atlassian"),
+          links: { html: { href: "https://bitbucket.org/atlassian/stash" } },
+        },
+        [`${CLOUD_API}/watchers`]: { size: 12, values: [] },
+        [`${CLOUD_API}/forks`]: { size: 3, values: [] },
+      });
+
+      const repository = await (await cloud()).fetchRepository("atlassian/stash");
+      expect(repository).toMatchObject({
+        full_name: "atlassian/stash",
+        html_url: "https://bitbucket.org/atlassian/stash",
+        watchers_count: 12,
+        forks_count: 3,
+        default_branch: "master",
+        owner: { login: "atlassian", html_url: "https://bitbucket.org/atlassian" },
+      });
+    });
+
+    it("counts merged pull requests without making up when they were merged", async () => {
+      serveFixtures({
+        [`${CLOUD_API}/pullrequests`]: {
+          values: [cloudPullRequest(3, "OPEN"), cloudPullRequest(2, "MERGED"), cloudPullRequest(1, "DECLINED")],
+        },
+      });
+
+      const pullRequests = await (await cloud()).fetchPullRequests("atlassian/stash");
+      const summary = pullRequests.map(({ state, merged, merged_at, closed_at }) => ({ state, merged, merged_at, closed_at }));
+      expect(summary).toEqual([
+        { state: "open", merged: false, merged_at: null, closed_at: null },
+        { state: "closed", merged: true, merged_at: null, closed_at: null },
+        { state: "closed", merged: false, merged_at: null, closed_at: null },
+      ]);
+    });
+
+    it("builds contributors and weekly activity from the last year of commits", async () => {
+      const commit = (nickname: string | null, days: number) => ({
+        date: daysAgo(days),
+        author: nickname
+          ? { raw: `${nickname} <${nickname}@example.com>`, user: cloudUser(nickname) }
+          : { raw: "Bot <bot@ci>" },
+      });
+      serveFixtures({
+        [`${CLOUD_API}/commits`]: (url: URL) =>
+          url.searchParams.get("page") === "2"
+            ? { values: [commit("jane", 20), commit("joe", 400)] }
+            : {
+                values: [commit("jane", 1), commit("joe", 2), commit(null, 3)],
+                next: `https://api.bitbucket.org${CLOUD_API}/commits?page=2`,
+              },
+      });
+
+      const provider = await cloud();
+      const contributors = await provider.fetchContributors("atlassian/stash");
+      expect(contributors.map(({ login, contributions }) => [login, contributions])).toEqual([
+        ["jane", 2],
+        ["joe", 1],
+        ["Bot", 1],
+      ]);
+
+      // The commit from 400 days ago is outside the window
+      const activity = await provider.fetchCommitActivity("atlassian/stash");
+      expect(activity).toHaveLength(52);
+      expect(activity.reduce((sum, week) => sum + week.total, 0)).toBe(4);
+    });
+
+    it("sends the token saved for its host", async () => {
+      const fetchMock = serveFixtures({ [`${CLOUD_API}/refs/tags`]: { values: [] } });
+      const { createBitbucketCloudProvider, forgeTokenService } = await load();
+      await forgeTokenService.set("bitbucket.org", "cloud-token");
+      await forgeTokenService.set("gitlab.com", "gitlab-token");
+
+      const provider = createBitbucketCloudProvider("https://bitbucket.org", "https://api.bitbucket.org/2.0");
+      await provider.fetchReleases("atlassian/stash");
+      expect(fetchMock.mock.calls[0][1].headers).toMatchObject({ Authorization: "Bearer cloud-token" });
+    });
+  });
+
+  describe("Data Center", () => {
+    const dataCenter = async () => {
+      const { createBitbucketDataCenterProvider } = await load();
+      return createBitbucketDataCenterProvider("https://git.corp");
+    };
+
+    it("counts forks across pages and reads the last activity from one commit", async () => {
+      const latest = Date.parse(daysAgo(2));
+      const fetchMock = serveFixtures({
+        [DC_API]: {
+          id: 7,
+          slug: "repo",
+          name: "Repo",
+          project: { key: "PROJ", name: "Project" },
+          links: { self: [{ href: "https://git.corp/projects/PROJ/repos/repo/browse" }] },
+        },
+        [`${DC_API}/default-branch`]: { displayId: "develop" },
+        [`${DC_API}/forks`]: (url: URL) =>
+          url.searchParams.get("start") === "0"
+            ? { size: 1000, isLastPage: false, nextPageStart: 1000, values: [] }
+            : { size: 5, isLastPage: true, values: [] },
+        [`${DC_API}/commits`]: {
+          values: [{ id: "abc", authorTimestamp: latest, author: { name: "jane" } }],
+          size: 1,
+          isLastPage: false,
+        },
+      });
+
+      const repository = await (await dataCenter()).fetchRepository("PROJ/repo");
+      expect(repository).toMatchObject({
+        id: 7,
+        full_name: "PROJ/repo",
+        forks_count: 1005,
+        default_branch: "develop",
+        pushed_at: new Date(latest).toISOString(),
+      });
+
+      const commitRequests = fetchMock.mock.calls
+        .map(([url]) => new URL(url))
+        .filter((url) => url.pathname.endsWith("/commits"));
+      expect(commitRequests.map((url) => url.searchParams.get("limit"))).toEqual(["1"]);
+    });
+
+    it("takes merge and decline times from the closed date", async () => {
+      const closed = Date.parse(daysAgo(3));
+      serveFixtures({
+        [`${DC_API}/pull-requests`]: {
+          values: [dcPullRequest(3, "OPEN"), dcPullRequest(2, "MERGED", closed), dcPullRequest(1, "DECLINED", closed)],
+          size: 3,
+          isLastPage: true,
+        },
+      });
+
+      const pullRequests = await (await dataCenter()).fetchPullRequests("PROJ/repo");
+      expect(pullRequests.map(({ state, merged_at, closed_at }) => ({ state, merged_at, closed_at }))).toEqual([
+        { state: "open", merged_at: null, closed_at: null },
+        { state: "closed", merged_at: new Date(closed).toISOString(), closed_at: new Date(closed).toISOString() },
+        { state: "closed", merged_at: null, closed_at: new Date(closed).toISOString() },
+      ]);
+      expect(pullRequests[1].html_url).toBe("https://git.corp/projects/PROJ/repos/repo/pull-requests/2");
+    });
+  });
+});
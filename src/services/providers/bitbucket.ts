@@ -0,0 +1,553 @@
+import {
+  Contributor,
+  PullRequest,
+  CommitActivity,
+  Release,
+} from "../githubService";
+import { fetchPaginated, fetchWithCache, RequestConfig } from "../httpClient";
+import { buildCacheKey } from "../hostService";
+import { forgeTokenService } from "../forgeTokenService";
+import { activitySince, bucketByWeek, checkDocsByDirectory, DirectoryEntry, MAX_ACTIVITY_COMMITS } from "./shared";
+import { RepositoryProvider } from "./types";
+
+export const BITBUCKET_CLOUD = "https://bitbucket.org";
+
+const PAGE_SIZE = 50;
+
+// Bitbucket keeps pull request templates at the repository root
+const BITBUCKET_ALTERNATIVE_PATHS: Record<string, string[]> = {
+  "Pull Request Template": ["PULL_REQUEST_TEMPLATE.md"],
+};
+
+// Commits reduced to what the contributor and activity widgets need
+interface BitbucketCommit {
+  created_at: string; // Commit date, named like other items so `since` caps apply
+  author: string;
+  login?: string; // Account the commit is linked to, if any
+  avatar_url: string;
+  html_url?: string;
+}
+
+// OPEN/MERGED/DECLINED (and Cloud's SUPERSEDED) map onto GitHub's open/closed
+const toPullRequestState = (state: string) => state === "OPEN" ? "open" : "closed";
+
+// Top committers of the last year; commits without a linked account are listed by author name
+const toContributors = (commits: BitbucketCommit[], limit: number, fallbackUrl: string): Contributor[] => {
+  const contributors = new Map<string, Contributor>();
+  commits.forEach(commit => {
+    const login = commit.login || commit.author;
+    const contributor = contributors.get(login) || {
+      login,
+      avatar_url: commit.avatar_url,
+      html_url: commit.html_url || fallbackUrl,
+      contributions: 0,
+    };
+    contributor.contributions++;
+    contributors.set(login, contributor);
+  });
+  return [...contributors.values()]
+    .sort((a, b) => b.contributions - a.contributions)
+    .slice(0, limit);
+};
+
+const toCommitActivity = (commits: BitbucketCommit[]): CommitActivity[] =>
+  bucketByWeek<BitbucketCommit, CommitActivity>(
+    commits,
+    commit => commit.created_at,
+    week => ({ week, days: [0, 0, 0, 0, 0, 0, 0], total: 0 }),
+    (bucket, _commit, date) => {
+      bucket.days[date.getUTCDay()]++;
+      bucket.total++;
+    }
+  );
+
+// The token saved for the host, if any, as a bearer token
+const bearer = (hostId: string): RequestConfig => ({
+  authorize: async () => {
+    const token = await forgeTokenService.getToken(hostId);
+    return { options: token ? { headers: { 'Authorization': `Bearer ${token}` } } : {} };
+  }
+});
+
+interface CloudUser {
+  display_name: string;
+  nickname?: string;
+  links: { avatar: { href: string }; html?: { href: string } };
+}
+
+interface CloudRepository {
+  name: string;
+  full_name: string;
+  description: string;
+  language: string;
+  created_on: string;
+  updated_on: string;
+  mainbranch?: { name: string };
+  owner: CloudUser;
+  links: { html: { href: string } };
+}
+
+interface CloudPullRequest {
+  id: number;
+  title: string;
+  state: string; // OPEN, MERGED, DECLINED or SUPERSEDED
+  created_on: string;
+  updated_on: string;
+  author: CloudUser;
+  links: { html: { href: string } };
+}
+
+interface CloudCommit {
+  date: string;
+  author: { raw: string; user?: CloudUser };
+}
+
+interface CloudTag {
+  name: string;
+  date?: string; // Annotated tags only
+  target: { date: string };
+  links: { html: { href: string } };
+}
+
+interface CloudPage<T> {
+  values: T[];
+  next?: string;
+  size?: number; // Total count, only on some endpoints
+}
+
+// "Jane Doe <jane@example.com>" -> "Jane Doe"
+const authorName = (raw: string) => raw.replace(/\s*<[^>]*>\s*$/, "");
+
+// Bitbucket Cloud's 2.0 API. apiBaseUrl can point at a local stand-in serving the same routes.
+export const createBitbucketCloudProvider = (
+  webBaseUrl: string,
+  apiBaseUrl: string
+): RepositoryProvider => {
+  const hostId = new URL(webBaseUrl).host;
+  const request = bearer(hostId);
+
+  // Pages carry their items and the next URL in the body
+  const pageRequest = <Raw, T>(map: (item: Raw) => T): RequestConfig => ({
+    ...request,
+    parse: async (response) => {
+      const page: CloudPage<Raw> = await response.json();
+      return { items: page.values.map(map), next: page.next || null };
+    }
+  });
+
+  const repoUrl = (repoFullName: string) => `${apiBaseUrl}/repositories/${repoFullName}`;
+  const cacheKey = (resource: string, repoFullName: string, ...rest: (string | number)[]) =>
+    buildCacheKey(`bitbucket-${resource}`, hostId, repoFullName, ...rest);
+
+  const fetchRepo = (repoFullName: string, signal?: AbortSignal): Promise<CloudRepository> =>
+    fetchWithCache(repoUrl(repoFullName), cacheKey("repo", repoFullName), { ...request, signal });
+
+  // Total of a paginated collection, read from a one-item page
+  const fetchCount = (repoFullName: string, resource: string, signal?: AbortSignal): Promise<number> =>
+    fetchWithCache(
+      `${repoUrl(repoFullName)}/${resource}?pagelen=1`,
+      cacheKey(`${resource}-count`, repoFullName),
+      { ...request, signal }
+    )
+      .then((page: CloudPage<unknown>) => page.size || 0)
+      .catch(() => 0);
+
+  // Newest first; the date cap stops paging after a year
+  const fetchRecentCommits = (repoFullName: string, signal?: AbortSignal): Promise<BitbucketCommit[]> =>
+    fetchPaginated<BitbucketCommit>(
+      `${repoUrl(repoFullName)}/commits?pagelen=100`,
+      cacheKey("commits", repoFullName),
+      { since: activitySince(), maxItems: MAX_ACTIVITY_COMMITS },
+      {
+        ...pageRequest<CloudCommit, BitbucketCommit>(commit => ({
+          created_at: commit.date,
+          author: commit.author.user?.display_name || authorName(commit.author.raw),
+          login: commit.author.user?.nickname,
+          avatar_url: commit.author.user?.links.avatar.href || "",
+          html_url: commit.author.user?.links.html?.href,
+        })),
+        signal
+      }
+    );
+
+  const provider: RepositoryProvider = {
+    id: "bitbucket",
+    name: "Bitbucket",
+
+    fetchRepository: async (repoFullName, signal) => {
+      const [repo, watchers, forks] = await Promise.all([
+        fetchRepo(repoFullName, signal),
+        fetchCount(repoFullName, "watchers", signal),
+        fetchCount(repoFullName, "forks", signal),
+      ]);
+      return {
+        id: 0, // Bitbucket Cloud identifies repositories by UUID
+        name: repo.name,
+        full_name: repo.full_name,
+        description: repo.description,
+        html_url: repo.links.html.href,
+        stargazers_count: 0, // Bitbucket has no stars
+        watchers_count: watchers,
+        forks_count: forks,
+        open_issues_count: 0,
+        language: repo.language,
+        created_at: repo.created_on,
+        updated_at: repo.updated_on,
+        pushed_at: repo.updated_on,
+        owner: {
+          login: repo.owner.nickname || repo.owner.display_name,
+          avatar_url: repo.owner.links.avatar.href,
+          html_url: repo.owner.links.html?.href || `${webBaseUrl}/${repoFullName.split("/")[0]}`,
+        },
+        default_branch: repo.mainbranch?.name || "main",
+      };
+    },
+
+    fetchContributors: async (repoFullName, limit = 10, signal) => {
+      const commits = await fetchRecentCommits(repoFullName, signal);
+      return toContributors(commits, limit, `${webBaseUrl}/${repoFullName}/commits`);
+    },
+
+    // No fetchIssues: most Bitbucket projects track issues in Jira
+
+    fetchPullRequests: async (repoFullName, pagination = {}, signal) => {
+      return await fetchPaginated<PullRequest>(
+        `${repoUrl(repoFullName)}/pullrequests?state=OPEN&state=MERGED&state=DECLINED&state=SUPERSEDED&sort=-created_on&pagelen=${PAGE_SIZE}`,
+        cacheKey("pullrequests", repoFullName),
+        pagination,
+        {
+          ...pageRequest<CloudPullRequest, PullRequest>(pr => ({
+            number: pr.id,
+            title: pr.title,
+            state: toPullRequestState(pr.state),
+            created_at: pr.created_on,
+            updated_at: pr.updated_on,
+            // Cloud doesn't report when a pull request was merged or declined, and its last update can come
+            // long after (a comment, a branch deletion), so these stay out of the merge time
+            closed_at: null,
+            merged_at: null,
+            merged: pr.state === "MERGED",
+            user: { login: pr.author.nickname || pr.author.display_name, avatar_url: pr.author.links.avatar.href },
+            html_url: pr.links.html.href,
+          })),
+          signal
+        }
+      );
+    },
+
+    activityCap: MAX_ACTIVITY_COMMITS,
+
+    fetchCommitActivity: async (repoFullName, _onPending, signal) => {
+      return toCommitActivity(await fetchRecentCommits(repoFullName, signal));
+    },
+
+    // No fetchCodeFrequency: line counts would need a diffstat request per commit
+
+    // Tags stand in for releases, newest first
+    fetchReleases: async (repoFullName, limit = 10, signal) => {
+      const page: CloudPage<CloudTag> = await fetchWithCache(
+        `${repoUrl(repoFullName)}/refs/tags?sort=-target.date&pagelen=${limit}`,
+        cacheKey("tags", repoFullName, limit),
+        { ...request, signal }
+      );
+      return page.values.map((tag, index): Release => ({
+        id: index,
+        tag_name: tag.name,
+        name: tag.name,
+        created_at: tag.date || tag.target.date,
+        published_at: tag.date || tag.target.date,
+        assets: [],
+        html_url: tag.links.html.href,
+      }));
+    },
+
+    checkDocumentationFiles: async (repoFullName, signal) => {
+      const repo = await fetchRepo(repoFullName, signal);
+      const branch = repo.mainbranch?.name || "main";
+      return await checkDocsByDirectory(
+        async (directory) => {
+          const page: CloudPage<{ path: string }> = await fetchWithCache(
+            `${repoUrl(repoFullName)}/src/${branch}/${directory ? `${directory}/` : ""}?pagelen=100`,
+            cacheKey("src", repoFullName, directory || "/"),
+            { ...request, signal }
+          );
+          return page.values.map((entry): DirectoryEntry => ({
+            path: entry.path,
+            url: `${repo.links.html.href}/src/${branch}/${entry.path}`,
+          }));
+        },
+        BITBUCKET_ALTERNATIVE_PATHS
+      );
+    },
+
+    createFileUrl: (repoFullName, branch, path) =>
+      `${webBaseUrl}/${repoFullName}/create-file/${branch}?filename=${path}`,
+  };
+
+  return provider;
+};
+
+interface DataCenterUser {
+  name: string;
+  displayName: string;
+  slug: string;
+}
+
+interface DataCenterRepository {
+  id: number;
+  slug: string;
+  name: string;
+  description?: string;
+  project: { key: string; name: string };
+  links: { self: { href: string }[] };
+}
+
+interface DataCenterPullRequest {
+  id: number;
+  title: string;
+  state: string; // OPEN, MERGED or DECLINED
+  createdDate: number;
+  updatedDate: number;
+  closedDate?: number;
+  author: { user: DataCenterUser };
+  links: { self: { href: string }[] };
+}
+
+interface DataCenterCommit {
+  id: string;
+  authorTimestamp: number;
+  author: { name: string; displayName?: string; slug?: string };
+}
+
+interface DataCenterTag {
+  displayId: string;
+  latestCommit: string;
+}
+
+interface DataCenterPage<T> {
+  values: T[];
+  size: number; // Items on this page; there is no total
+  isLastPage: boolean;
+  nextPageStart?: number;
+}
+
+const toIsoDate = (timestamp?: number) => timestamp ? new Date(timestamp).toISOString() : null;
+
+// Bitbucket Data Center/Server REST 1.0 API, addressed by its web origin
+export const createBitbucketDataCenterProvider = (webBaseUrl: string): RepositoryProvider => {
+  const hostId = new URL(webBaseUrl).host;
+  const apiBaseUrl = `${webBaseUrl}/rest/api/1.0`;
+  const request = bearer(hostId);
+
+  // Pages report the next start offset; the request URL carries everything else
+  const pageRequest = <Raw, T>(map: (item: Raw) => T): RequestConfig => ({
+    ...request,
+    parse: async (response) => {
+      const page: DataCenterPage<Raw> = await response.json();
+      let next: string | null = null;
+      if (!page.isLastPage && page.nextPageStart !== undefined) {
+        const url = new URL(response.url);
+        url.searchParams.set("start", String(page.nextPageStart));
+        next = url.toString();
+      }
+      return { items: page.values.map(map), next };
+    }
+  });
+
+  // repoFullName is PROJECT/repo-slug
+  const repoUrl = (repoFullName: string) => {
+    const [projectKey, slug] = repoFullName.split("/");
+    return `${apiBaseUrl}/projects/${projectKey}/repos/${slug}`;
+  };
+  const repoWebUrl = (repoFullName: string) => {
+    const [projectKey, slug] = repoFullName.split("/");
+    return `${webBaseUrl}/projects/${projectKey}/repos/${slug}`;
+  };
+  const cacheKey = (resource: string, repoFullName: string, ...rest: (string | number)[]) =>
+    buildCacheKey(`bitbucket-${resource}`, hostId, repoFullName, ...rest);
+  const avatarUrl = (slug?: string) => slug ? `${webBaseUrl}/users/${slug}/avatar.png` : "";
+
+  const fetchDefaultBranch = (repoFullName: string, signal?: AbortSignal): Promise<string> =>
+    fetchWithCache(
+      `${repoUrl(repoFullName)}/default-branch`,
+      cacheKey("default-branch", repoFullName),
+      { ...request, signal }
+    )
+      .then((branch: { displayId: string }) => branch.displayId)
+      .catch(() => "main");
+
+  const fetchRecentCommits = (repoFullName: string, signal?: AbortSignal): Promise<BitbucketCommit[]> =>
+    fetchPaginated<BitbucketCommit>(
+      `${repoUrl(repoFullName)}/commits?limit=100`,
+      cacheKey("commits", repoFullName),
+      { since: activitySince(), maxItems: MAX_ACTIVITY_COMMITS },
+      {
+        ...pageRequest<DataCenterCommit, BitbucketCommit>(commit => ({
+          created_at: toIsoDate(commit.authorTimestamp),
+          author: commit.author.displayName || commit.author.name,
+          login: commit.author.slug,
+          avatar_url: avatarUrl(commit.author.slug),
+          html_url: commit.author.slug ? `${webBaseUrl}/users/${commit.author.slug}` : undefined,
+        })),
+        signal
+      }
+    );
+
+  // Data Center reports no timestamps for repositories; the latest commit is the last activity
+  const fetchLastActivity = (repoFullName: string, signal?: AbortSignal): Promise<string> =>
+    fetchWithCache(
+      `${repoUrl(repoFullName)}/commits?limit=1`,
+      cacheKey("commits", repoFullName, "latest"),
+      { ...request, signal }
+    )
+      .then((page: DataCenterPage<DataCenterCommit>) => toIsoDate(page.values[0]?.authorTimestamp) || "")
+      .catch(() => "");
+
+  // Pages carry no total, so a collection is counted page by page; only the counts are cached
+  const fetchCount = async (repoFullName: string, resource: string, signal?: AbortSignal): Promise<number> => {
+    let count = 0;
+    let start = 0;
+    for (;;) {
+      const page: Omit<DataCenterPage<unknown>, "values"> = await fetchWithCache(
+        `${repoUrl(repoFullName)}/${resource}?limit=1000&start=${start}`,
+        cacheKey(`${resource}-count`, repoFullName, start),
+        {
+          ...request,
+          parse: async (response) => {
+            const { size, isLastPage, nextPageStart }: DataCenterPage<unknown> = await response.json();
+            return { size, isLastPage, nextPageStart };
+          },
+          signal
+        }
+      );
+      count += page.size;
+      if (page.isLastPage || page.nextPageStart === undefined) return count;
+      start = page.nextPageStart;
+    }
+  };
+
+  const provider: RepositoryProvider = {
+    id: "bitbucket",
+    name: "Bitbucket",
+
+    fetchRepository: async (repoFullName, signal) => {
+      const [repo, branch, forks, lastActivity] = await Promise.all([
+        fetchWithCache(
+          repoUrl(repoFullName),
+          cacheKey("repo", repoFullName),
+          { ...request, signal }
+        ) as Promise<DataCenterRepository>,
+        fetchDefaultBranch(repoFullName, signal),
+        fetchCount(repoFullName, "forks", signal).catch(() => 0),
+        fetchLastActivity(repoFullName, signal),
+      ]);
+      return {
+        id: repo.id,
+        name: repo.name,
+        full_name: `${repo.project.key}/${repo.slug}`,
+        description: repo.description || "",
+        html_url: repo.links.self[0]?.href || repoWebUrl(repoFullName),
+        stargazers_count: 0,
+        watchers_count: 0,
+        forks_count: forks,
+        open_issues_count: 0,
+        language: "",
+        created_at: "",
+        updated_at: lastActivity,
+        pushed_at: lastActivity,
+        owner: {
+          login: repo.project.key,
+          avatar_url: `${webBaseUrl}/projects/${repo.project.key}/avatar.png`,
+          html_url: `${webBaseUrl}/projects/${repo.project.key}`,
+        },
+        default_branch: branch,
+      };
+    },
+
+    fetchContributors: async (repoFullName, limit = 10, signal) => {
+      const commits = await fetchRecentCommits(repoFullName, signal);
+      return toContributors(commits, limit, `${repoWebUrl(repoFullName)}/commits`);
+    },
+
+    // No fetchIssues: Data Center delegates issue tracking to Jira
+
+    fetchPullRequests: async (repoFullName, pagination = {}, signal) => {
+      return await fetchPaginated<PullRequest>(
+        `${repoUrl(repoFullName)}/pull-requests?state=ALL&order=NEWEST&limit=${PAGE_SIZE}`,
+        cacheKey("pull-requests", repoFullName),
+        pagination,
+        {
+          ...pageRequest<DataCenterPullRequest, PullRequest>(pr => ({
+            number: pr.id,
+            title: pr.title,
+            state: toPullRequestState(pr.state),
+            created_at: toIsoDate(pr.createdDate),
+            updated_at: toIsoDate(pr.updatedDate),
+            closed_at: pr.state === "OPEN" ? null : toIsoDate(pr.closedDate || pr.updatedDate),
+            merged_at: pr.state === "MERGED" ? toIsoDate(pr.closedDate || pr.updatedDate) : null,
+            user: { login: pr.author.user.slug, avatar_url: avatarUrl(pr.author.user.slug) },
+            html_url: pr.links.self[0]?.href || `${repoWebUrl(repoFullName)}/pull-requests/${pr.id}`,
+          })),
+          signal
+        }
+      );
+    },
+
+    activityCap: MAX_ACTIVITY_COMMITS,
+
+    fetchCommitActivity: async (repoFullName, _onPending, signal) => {
+      return toCommitActivity(await fetchRecentCommits(repoFullName, signal));
+    },
+
+    // No fetchCodeFrequency: line counts would need a diff request per commit
+
+    // Tags stand in for releases; their dates come from the tagged commits
+    fetchReleases: async (repoFullName, limit = 10, signal) => {
+      const page: DataCenterPage<DataCenterTag> = await fetchWithCache(
+        `${repoUrl(repoFullName)}/tags?orderBy=MODIFICATION&limit=${limit}`,
+        cacheKey("tags", repoFullName, limit),
+        { ...request, signal }
+      );
+      return await Promise.all(page.values.map(async (tag, index): Promise<Release> => {
+        // Keyed by hash, so the commit can never change
+        const commit: DataCenterCommit | null = await fetchWithCache(
+          `${repoUrl(repoFullName)}/commits/${tag.latestCommit}`,
+          cacheKey("commit", repoFullName, tag.latestCommit),
+          { ...request, signal, ttl: null }
+        ).catch(() => null);
+        const date = toIsoDate(commit?.authorTimestamp) || "";
+        return {
+          id: index,
+          tag_name: tag.displayId,
+          name: tag.displayId,
+          created_at: date,
+          published_at: date,
+          assets: [],
+          html_url: `${repoWebUrl(repoFullName)}/browse?at=refs/tags/${encodeURIComponent(tag.displayId)}`,
+        };
+      }));
+    },
+
+    checkDocumentationFiles: async (repoFullName, signal) => {
+      return await checkDocsByDirectory(
+        async (directory) => {
+          const listing: { children: DataCenterPage<{ path: { toString: string } }> } = await fetchWithCache(
+            `${repoUrl(repoFullName)}/browse${directory ? `/${directory}` : ""}?limit=500`,
+            cacheKey("browse", repoFullName, directory || "/"),
+            { ...request, signal }
+          );
+          // Child paths are relative to the listed directory
+          return listing.children.values.map((child): DirectoryEntry => {
+            const path = directory ? `${directory}/${child.path.toString}` : child.path.toString;
+            return { path, url: `${repoWebUrl(repoFullName)}/browse/${path}` };
+          });
+        },
+        BITBUCKET_ALTERNATIVE_PATHS
+      );
+    },
+
+    createFileUrl: (repoFullName, branch) => `${repoWebUrl(repoFullName)}/browse?at=refs/heads/${branch}`,
+  };
+
+  return provider;
+};
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { IDBFactory } from "fake-indexeddb";
+import { daysAgo, json, serveFixtures } from "@/test/forge";
+
+const REPO_API = "/api/v1/repos/forgejo/forgejo";
+
+const giteaUser = (login: string) => ({
+  login,
+  avatar_url: `https://avatars/${login}`,
+  html_url: `https://codeberg.org/${login}`,
+});
+
+const pullRequest = (number: number) => ({
+  number,
+  title: `PR ${number}`,
+  state: "open",
+  created_at: daysAgo(number),
+  updated_at: daysAgo(1),
+  closed_at: null,
+  merged_at: null,
+  user: giteaUser("jane"),
+  html_url: `https://codeberg.org/forgejo/forgejo/pulls/${number}`,
+});
+
+describe("Gitea provider", () => {
+  // Fresh modules, so neither the cache nor saved tokens carry over between tests
+  const load = async () => ({
+    ...(await import("./gitea")),
+    forgeTokenService: (await import("../forgeTokenService")).forgeTokenService,
+  });
+
+  const gitea = async () => (await load()).createGiteaProvider("https://codeberg.org");
+
+  const pageOf = (url: URL) => url.searchParams.get("page") || "1";
+
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("maps the repository and counts open pull requests as issues", async () => {
+    serveFixtures({
+      [REPO_API]: {
+        id: 9,
+        name: "forgejo",
+        full_name: "forgejo/forgejo",
+        description: "Beyond coding",
+        html_url: "https://codeberg.org/forgejo/forgejo",
+        stars_count: 40,
+        watchers_count: 12,
+        forks_count: 6,
+        open_issues_count: 10,
+        open_pr_counter: 4,
+        language: "Go",
+        created_at: "2022-11-01T00:00:00Z",
+        updated_at: "2024-05-01T00:00:00Z",
+        default_branch: "forgejo",
+        licenses: ["GPL-3.0-or-later"],
+        owner: { login: "forgejo", avatar_url: "https://avatars/forgejo" },
+      },
+    });
+
+    const repository = await (await gitea()).fetchRepository("forgejo/forgejo");
+    expect(repository).toMatchObject({
+      stargazers_count: 40,
+      watchers_count: 12,
+      open_issues_count: 14,
+      open_pull_requests_count: 4,
+      default_branch: "forgejo",
+      // Older versions leave out the owner's profile URL
+      owner: { login: "forgejo", html_url: "https://codeberg.org/forgejo" },
+      license: { spdx_id: "GPL-3.0-or-later" },
+    });
+  });
+
+  it("follows the Link header when the instance sends one", async () => {
+    const fetchMock = serveFixtures({
+      [`${REPO_API}/pulls`]: (url: URL) =>
+        pageOf(url) === "1"
+          ? json([pullRequest(1), pullRequest(2)], {
+              Link: `<https://codeberg.org${REPO_API}/pulls?state=all&limit=50&page=2>; rel="next"`,
+            })
+          : json([pullRequest(3)]),
+    });
+
+    const pullRequests = await (await gitea()).fetchPullRequests("forgejo/forgejo");
+    expect(pullRequests.map(({ number }) => number)).toEqual([1, 2, 3]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("pages by the total count on versions without a Link header", async () => {
+    const fetchMock = serveFixtures({
+      [`${REPO_API}/pulls`]: (url: URL) =>
+        pageOf(url) === "1"
+          ? json([pullRequest(1), pullRequest(2)], { "X-Total-Count": "60" })
+          : json([pullRequest(3)], { "X-Total-Count": "60" }),
+    });
+
+    const pullRequests = await (await gitea()).fetchPullRequests("forgejo/forgejo");
+    expect(pullRequests.map(({ number }) => number)).toEqual([1, 2, 3]);
+    // 60 items fit in two pages of 50
+    expect(fetchMock.mock.calls.map(([url]) => pageOf(new URL(url)))).toEqual(["1", "2"]);
+  });
+
+  it("strips the hash from label colors", async () => {
+    serveFixtures({
+      [`${REPO_API}/issues`]: [
+        {
+          number: 1,
+          title: "Bug",
+          state: "open",
+          created_at: daysAgo(2),
+          updated_at: daysAgo(1),
+          closed_at: null,
+          user: giteaUser("joe"),
+          labels: [{ name: "bug", color: "#d73a4a" }, { name: "docs", color: "0075ca" }],
+          html_url: "https://codeberg.org/forgejo/forgejo/issues/1",
+        },
+      ],
+    });
+
+    const [issue] = await (await gitea()).fetchIssues("forgejo/forgejo");
+    expect(issue.labels).toEqual([{ name: "bug", color: "d73a4a" }, { name: "docs", color: "0075ca" }]);
+  });
+
+  it("ranks contributors by their commits of the last year", async () => {
+    const commit = (login: string | null, name: string, days: number) => ({
+      created: daysAgo(days),
+      commit: { author: { name, date: daysAgo(days) } },
+      author: login ? giteaUser(login) : null,
+    });
+    serveFixtures({
+      [`${REPO_API}/commits`]: [
+        commit("jane", "Jane", 1),
+        commit(null, "Bot", 2),
+        commit("jane", "Jane Doe", 3),
+        commit(null, "Bot", 4),
+        commit(null, "Bot", 5),
+      ],
+    });
+
+    const provider = await gitea();
+    const contributors = await provider.fetchContributors("forgejo/forgejo");
+    expect(contributors).toEqual([
+      { login: "Bot", avatar_url: "", html_url: "https://codeberg.org/forgejo/forgejo/activity", contributions: 3 },
+      { login: "jane", avatar_url: "https://avatars/jane", html_url: "https://codeberg.org/jane", contributions: 2 },
+    ]);
+
+    const activity = await provider.fetchCommitActivity("forgejo/forgejo");
+    expect(activity.reduce((sum, week) => sum + week.total, 0)).toBe(5);
+  });
+
+  it("sends the token saved for its instance", async () => {
+    const fetchMock = serveFixtures({ [`${REPO_API}/releases`]: [] });
+    const { createGiteaProvider, forgeTokenService } = await load();
+    await forgeTokenService.set("codeberg.org", "codeberg-token");
+    await forgeTokenService.set("gitea.com", "gitea-token");
+
+    await createGiteaProvider("https://codeberg.org").fetchReleases("forgejo/forgejo");
+    expect(fetchMock.mock.calls[0][1].headers).toMatchObject({ Authorization: "token codeberg-token" });
+  });
+});
@@ -0,0 +1,238 @@
+import {
+  Contributor,
+  Issue,
+  PullRequest,
+  CommitActivity,
+  Release,
+  PaginationOptions,
+} from "../githubService";
+import { fetchPaginated, fetchWithCache, getNextPageUrl, RequestConfig } from "../httpClient";
+import { buildCacheKey } from "../hostService";
+import { forgeTokenService } from "../forgeTokenService";
+import { activitySince, bucketByWeek, checkDocsByDirectory, MAX_ACTIVITY_COMMITS } from "./shared";
+import { RepositoryProvider } from "./types";
+
+// Gitea caps list responses at 50 items by default
+const PAGE_SIZE = 50;
+
+// Gitea and Forgejo read templates from .gitea/ or .forgejo/ as well as .github/
+const GITEA_ALTERNATIVE_PATHS: Record<string, string[]> = {
+  "Issue Templates": [".gitea/ISSUE_TEMPLATE", ".forgejo/ISSUE_TEMPLATE"],
+  "Pull Request Template": [".gitea/PULL_REQUEST_TEMPLATE.md", ".forgejo/PULL_REQUEST_TEMPLATE.md"],
+};
+
+interface GiteaUser {
+  login: string;
+  avatar_url: string;
+  html_url?: string; // Missing on older Gitea versions
+}
+
+interface GiteaRepository {
+  id: number;
+  name: string;
+  full_name: string;
+  description: string;
+  html_url: string;
+  stars_count: number;
+  watchers_count: number;
+  forks_count: number;
+  open_issues_count: number; // Issues only
+  open_pr_counter: number;
+  language: string;
+  created_at: string;
+  updated_at: string;
+  default_branch: string;
+  topics?: string[];
+  licenses?: string[]; // SPDX identifiers, Gitea 1.22+
+  owner: GiteaUser;
+}
+
+interface GiteaCommit {
+  created: string;
+  commit: { author: { name: string; date: string } };
+  author: GiteaUser | null; // Null when the email doesn't match an account
+}
+
+interface GiteaContentEntry {
+  path: string;
+  html_url: string;
+}
+
+// Follow the Link header when present; older versions only send X-Total-Count
+const parsePage = async (response: Response) => {
+  const items = await response.json();
+  const next = getNextPageUrl(response.headers.get('Link'));
+  if (next) {
+    return { items, next };
+  }
+
+  const url = new URL(response.url);
+  const page = parseInt(url.searchParams.get('page') || '1');
+  const total = parseInt(response.headers.get('X-Total-Count') || '0');
+  if (items.length === 0 || page * PAGE_SIZE >= total) {
+    return { items, next: null };
+  }
+  url.searchParams.set('page', String(page + 1));
+  return { items, next: url.toString() };
+};
+
+// Labels may come back with or without the leading hash
+const normalizeIssue = (issue: Issue): Issue => ({
+  ...issue,
+  labels: issue.labels.map(label => ({ ...label, color: label.color.replace(/^#/, "") })),
+});
+
+// Gitea or Forgejo instance, addressed by its web origin (e.g. https://codeberg.org)
+export const createGiteaProvider = (origin: string): RepositoryProvider => {
+  const hostId = new URL(origin).host;
+  const apiBaseUrl = `${origin}/api/v1`;
+
+  const request: RequestConfig = {
+    // The token saved for this instance, if any
+    authorize: async () => {
+      const token = await forgeTokenService.getToken(hostId);
+      return { options: token ? { headers: { 'Authorization': `token ${token}` } } : {} };
+    }
+  };
+  const pageRequest: RequestConfig = { ...request, parse: parsePage };
+
+  const repoUrl = (repoFullName: string) => `${apiBaseUrl}/repos/${repoFullName}`;
+  const cacheKey = (resource: string, repoFullName: string, ...rest: (string | number)[]) =>
+    buildCacheKey(`gitea-${resource}`, hostId, repoFullName, ...rest);
+
+  const fetchRepo = (repoFullName: string, signal?: AbortSignal): Promise<GiteaRepository> =>
+    fetchWithCache(repoUrl(repoFullName), cacheKey("repo", repoFullName), { ...request, signal });
+
+  // Gitea has no /stats or contributors endpoint, so both come from the last year of commits
+  const fetchRecentCommits = (repoFullName: string, signal?: AbortSignal): Promise<GiteaCommit[]> =>
+    fetchPaginated<GiteaCommit>(
+      `${repoUrl(repoFullName)}/commits?since=${activitySince()}&stat=false&verification=false&files=false&limit=${PAGE_SIZE}`,
+      cacheKey("commits", repoFullName),
+      { maxItems: MAX_ACTIVITY_COMMITS },
+      { ...pageRequest, signal }
+    );
+
+  const provider: RepositoryProvider = {
+    id: "gitea",
+    name: "Gitea",
+
+    fetchRepository: async (repoFullName, signal) => {
+      const repo = await fetchRepo(repoFullName, signal);
+      const [license] = repo.licenses || [];
+      return {
+        id: repo.id,
+        name: repo.name,
+        full_name: repo.full_name,
+        description: repo.description,
+        html_url: repo.html_url,
+        stargazers_count: repo.stars_count,
+        watchers_count: repo.watchers_count,
+        forks_count: repo.forks_count,
+        // GitHub counts open pull requests as issues too
+        open_issues_count: repo.open_issues_count + repo.open_pr_counter,
+        open_pull_requests_count: repo.open_pr_counter,
+        language: repo.language,
+        created_at: repo.created_at,
+        updated_at: repo.updated_at,
+        pushed_at: repo.updated_at,
+        owner: {
+          login: repo.owner.login,
+          avatar_url: repo.owner.avatar_url,
+          html_url: repo.owner.html_url || `${origin}/${repo.owner.login}`,
+        },
+        license: license ? { name: license, spdx_id: license, url: repo.html_url } : undefined,
+        topics: repo.topics,
+        default_branch: repo.default_branch,
+      };
+    },
+
+    // Top committers of the last year; authors without an account are listed by name
+    fetchContributors: async (repoFullName, limit = 10, signal) => {
+      const commits = await fetchRecentCommits(repoFullName, signal);
+      const contributors = new Map<string, Contributor>();
+      commits.forEach(({ author, commit }) => {
+        const login = author ? author.login : commit.author.name;
+        const contributor = contributors.get(login) || {
+          login,
+          avatar_url: author ? author.avatar_url : "",
+          html_url: author ? author.html_url || `${origin}/${author.login}` : `${origin}/${repoFullName}/activity`,
+          contributions: 0,
+        };
+        contributor.contributions++;
+        contributors.set(login, contributor);
+      });
+      return [...contributors.values()]
+        .sort((a, b) => b.contributions - a.contributions)
+        .slice(0, limit);
+    },
+
+    fetchIssues: async (repoFullName, pagination: PaginationOptions<Issue> = {}, signal) => {
+      const issues = await fetchPaginated<Issue>(
+        `${repoUrl(repoFullName)}/issues?state=all&type=issues&limit=${PAGE_SIZE}`,
+        cacheKey("issues", repoFullName),
+        {
+          ...pagination,
+          onPage: pagination.onPage && ((items, progress) => pagination.onPage(items.map(normalizeIssue), progress))
+        },
+        { ...pageRequest, signal }
+      );
+      return issues.map(normalizeIssue);
+    },
+
+    // Pull requests already match GitHub's shape
+    fetchPullRequests: async (repoFullName, pagination: PaginationOptions<PullRequest> = {}, signal) => {
+      return await fetchPaginated<PullRequest>(
+        `${repoUrl(repoFullName)}/pulls?state=all&limit=${PAGE_SIZE}`,
+        cacheKey("pulls", repoFullName),
+        pagination,
+        { ...pageRequest, signal }
+      );
+    },
+
+    activityCap: MAX_ACTIVITY_COMMITS,
+
+    fetchCommitActivity: async (repoFullName, _onPending, signal) => {
+      const commits = await fetchRecentCommits(repoFullName, signal);
+      return bucketByWeek<GiteaCommit, CommitActivity>(
+        commits,
+        commit => commit.commit.author.date,
+        week => ({ week, days: [0, 0, 0, 0, 0, 0, 0], total: 0 }),
+        (bucket, _commit, date) => {
+          bucket.days[date.getUTCDay()]++;
+          bucket.total++;
+        }
+      );
+    },
+
+    // No fetchCodeFrequency: line counts would need a stats request per commit
+
+    fetchReleases: async (repoFullName, limit = 10, signal) => {
+      return await fetchWithCache(
+        `${repoUrl(repoFullName)}/releases?limit=${limit}`,
+        cacheKey("releases", repoFullName, limit),
+        { ...request, signal }
+      ) as Release[];
+    },
+
+    // Gitea answers a directory path on the contents API with a listing
+    checkDocumentationFiles: async (repoFullName, signal) => {
+      return await checkDocsByDirectory(
+        async (directory) => {
+          const entries: GiteaContentEntry[] = await fetchWithCache(
+            `${repoUrl(repoFullName)}/contents${directory ? `/${directory}` : ""}`,
+            cacheKey("contents", repoFullName, directory || "/"),
+            { ...request, signal }
+          );
+          return entries.map(entry => ({ path: entry.path, url: entry.html_url }));
+        },
+        GITEA_ALTERNATIVE_PATHS
+      );
+    },
+
+    // Gitea's editor takes the target directory, not the file name
+    createFileUrl: (repoFullName, branch, path) =>
+      `${origin}/${repoFullName}/_new/${branch}/${path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : ""}`,
+  };
+
+  return provider;
+};
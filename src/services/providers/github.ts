@@ -0,0 +1,31 @@
+import {
+  fetchRepository,
+  fetchContributors,
+  fetchIssues,
+  fetchPullRequests,
+  fetchCommitActivity,
+  fetchCodeFrequency,
+  fetchReleases,
+} from "../githubService";
+import { checkDocumentationFiles } from "../docsService";
+import { fetchRepositoryBundle, isGraphQLEnabled } from "../graphqlService";
+import { hostService } from "../hostService";
+import { RepositoryProvider } from "./types";
+
+// GitHub.com or the active GHES connection
+export const githubProvider: RepositoryProvider = {
+  id: "github",
+  name: "GitHub",
+  fetchRepository,
+  fetchContributors,
+  fetchIssues: (repoFullName, pagination, signal) => fetchIssues(repoFullName, "all", pagination, signal),
+  fetchPullRequests: (repoFullName, pagination, signal) => fetchPullRequests(repoFullName, "all", pagination, signal),
+  fetchCommitActivity,
+  fetchCodeFrequency,
+  fetchReleases,
+  checkDocumentationFiles,
+  fetchBundle: async (repoFullName, options, signal) =>
+    (await isGraphQLEnabled()) ? fetchRepositoryBundle(repoFullName, options, signal) : null,
+  createFileUrl: (repoFullName, branch, path) =>
+    `${hostService.getActiveHost().webBaseUrl}/${repoFullName}/new/${branch}?filename=${path}`,
+};
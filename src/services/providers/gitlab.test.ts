@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { IDBFactory } from "fake-indexeddb";
+import { daysAgo, json, serveFixtures } from "@/test/forge";
+
+const PROJECT_API = "/api/v4/projects/group%2Fproject";
+
+const gitlabUser = (username: string) => ({
+  username,
+  name: username.toUpperCase(),
+  avatar_url: `https://avatars/${username}`,
+  web_url: `https://gitlab.com/${username}`,
+});
+
+const mergeRequest = (iid: number, state: string, merged_at: string | null = null, closed_at: string | null = null) => ({
+  iid,
+  title: `MR ${iid}`,
+  state,
+  created_at: daysAgo(10),
+  updated_at: daysAgo(1),
+  closed_at,
+  merged_at,
+  author: gitlabUser("jane"),
+  web_url: `https://gitlab.com/group/project/-/merge_requests/${iid}`,
+});
+
+describe("GitLab provider", () => {
+  // Fresh modules, so neither the cache nor saved tokens carry over between tests
+  const load = async () => ({
+    ...(await import("./gitlab")),
+    forgeTokenService: (await import("../forgeTokenService")).forgeTokenService,
+  });
+
+  const gitlab = async () => (await load()).createGitLabProvider("https://gitlab.com");
+
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("maps the project and counts open merge requests as issues", async () => {
+    serveFixtures({
+      [PROJECT_API]: {
+        id: 42,
+        name: "project",
+        path_with_namespace: "group/project",
+        description: null,
+        web_url: "https://gitlab.com/group/project",
+        avatar_url: null,
+        star_count: 8,
+        forks_count: 2,
+        open_issues_count: 5,
+        created_at: "2020-01-01T00:00:00Z",
+        last_activity_at: "2024-05-01T00:00:00Z",
+        default_branch: "main",
+        topics: ["ci"],
+        namespace: { path: "group", full_path: "group", avatar_url: null, web_url: "https://gitlab.com/group" },
+        license: { key: "mit", name: "MIT License", html_url: "https://opensource.org/licenses/MIT" },
+      },
+      [`${PROJECT_API}/merge_requests`]: () => json([mergeRequest(1, "opened")], { "X-Total": "3" }),
+      [`${PROJECT_API}/languages`]: { Ruby: 20.5, Go: 79.5 },
+    });
+
+    const repository = await (await gitlab()).fetchRepository("group/project");
+    expect(repository).toMatchObject({
+      id: 42,
+      full_name: "group/project",
+      description: "",
+      open_issues_count: 8,
+      open_pull_requests_count: 3,
+      language: "Go",
+      pushed_at: "2024-05-01T00:00:00Z",
+      owner: { login: "group", avatar_url: "", html_url: "https://gitlab.com/group" },
+      license: { name: "MIT License", spdx_id: "MIT" },
+    });
+  });
+
+  it("maps merge request states and closes merged ones", async () => {
+    const merged = daysAgo(3);
+    serveFixtures({
+      [`${PROJECT_API}/merge_requests`]: [
+        mergeRequest(4, "opened"),
+        mergeRequest(3, "locked"),
+        mergeRequest(2, "merged", merged),
+        mergeRequest(1, "closed", null, merged),
+      ],
+    });
+
+    const pullRequests = await (await gitlab()).fetchPullRequests("group/project");
+    expect(pullRequests.map(({ number, state, merged_at, closed_at }) => ({ number, state, merged_at, closed_at }))).toEqual([
+      { number: 4, state: "open", merged_at: null, closed_at: null },
+      { number: 3, state: "open", merged_at: null, closed_at: null },
+      { number: 2, state: "closed", merged_at: merged, closed_at: merged },
+      { number: 1, state: "closed", merged_at: null, closed_at: merged },
+    ]);
+  });
+
+  it("strips the hash from label colors", async () => {
+    serveFixtures({
+      [`${PROJECT_API}/issues`]: [
+        {
+          iid: 1,
+          title: "Bug",
+          state: "opened",
+          created_at: daysAgo(2),
+          updated_at: daysAgo(1),
+          closed_at: null,
+          author: gitlabUser("joe"),
+          labels: [{ name: "bug", color: "#d73a4a" }],
+          web_url: "https://gitlab.com/group/project/-/issues/1",
+        },
+      ],
+    });
+
+    const [issue] = await (await gitlab()).fetchIssues("group/project");
+    expect(issue).toMatchObject({ number: 1, state: "open", user: { login: "joe" }, labels: [{ name: "bug", color: "d73a4a" }] });
+  });
+
+  it("merges contributors by name and links the matching members", async () => {
+    serveFixtures({
+      [PROJECT_API]: { web_url: "https://gitlab.com/group/project", default_branch: "main" },
+      [`${PROJECT_API}/repository/contributors`]: [
+        { name: "Jane", email: "jane@work.example", commits: 3 },
+        { name: "Bot", email: "bot@ci", commits: 4 },
+        { name: "Jane", email: "jane@home.example", commits: 2 },
+      ],
+      [`${PROJECT_API}/members/all`]: [{ ...gitlabUser("jane"), name: "Jane" }],
+    });
+
+    const contributors = await (await gitlab()).fetchContributors("group/project");
+    expect(contributors).toEqual([
+      { login: "jane", avatar_url: "https://avatars/jane", html_url: "https://gitlab.com/jane", contributions: 5 },
+      { login: "Bot", avatar_url: "", html_url: "https://gitlab.com/group/project/-/graphs/main", contributions: 4 },
+    ]);
+  });
+
+  it("sends the token saved for its instance", async () => {
+    const fetchMock = serveFixtures({ [`${PROJECT_API}/releases`]: [] });
+    const { createGitLabProvider, forgeTokenService } = await load();
+    await forgeTokenService.set("gitlab.example.com", "self-managed-token");
+    await forgeTokenService.set("gitlab.com", "dot-com-token");
+
+    await createGitLabProvider("https://gitlab.example.com").fetchReleases("group/project");
+    expect(fetchMock.mock.calls[0][1].headers).toMatchObject({ "PRIVATE-TOKEN": "self-managed-token" });
+  });
+});
@@ -0,0 +1,358 @@
+import {
+  Repository,
+  Contributor,
+  Issue,
+  PullRequest,
+  CommitActivity,
+  CodeFrequency,
+  Release,
+  PaginationOptions,
+} from "../githubService";
+import { fetchPaginated, fetchWithCache, RequestConfig } from "../httpClient";
+import { buildCacheKey } from "../hostService";
+import { forgeTokenService } from "../forgeTokenService";
+import { activitySince, bucketByWeek, checkDocsByDirectory, MAX_ACTIVITY_COMMITS } from "./shared";
+import { RepositoryProvider } from "./types";
+
+export const GITLAB_DOT_COM = "https://gitlab.com";
+
+// GitLab keeps templates under .gitlab/ rather than .github/
+const GITLAB_ALTERNATIVE_PATHS: Record<string, string[]> = {
+  "Issue Templates": [".gitlab/issue_templates"],
+  "Pull Request Template": [".gitlab/merge_request_templates"],
+};
+
+interface GitLabUser {
+  username: string;
+  name: string;
+  avatar_url: string;
+  web_url: string;
+}
+
+interface GitLabProject {
+  id: number;
+  name: string;
+  path_with_namespace: string;
+  description: string | null;
+  web_url: string;
+  avatar_url: string | null;
+  star_count: number;
+  forks_count: number;
+  open_issues_count?: number; // Missing when issues are disabled
+  created_at: string;
+  last_activity_at: string;
+  default_branch: string;
+  topics?: string[];
+  namespace: {
+    path: string;
+    full_path: string;
+    avatar_url: string | null;
+    web_url: string;
+  };
+  license?: {
+    key: string;
+    name: string;
+    html_url: string;
+  } | null;
+}
+
+interface GitLabIssue {
+  iid: number;
+  title: string;
+  state: string; // opened or closed
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+  author: GitLabUser;
+  labels: { name: string; color: string }[];
+  web_url: string;
+}
+
+interface GitLabMergeRequest {
+  iid: number;
+  title: string;
+  state: string; // opened, closed, locked or merged
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+  merged_at: string | null;
+  author: GitLabUser;
+  web_url: string;
+}
+
+interface GitLabCommit {
+  created_at: string;
+  authored_date: string;
+  stats?: { additions: number; deletions: number };
+}
+
+interface GitLabContributor {
+  name: string;
+  email: string;
+  commits: number;
+}
+
+interface GitLabRelease {
+  tag_name: string;
+  name: string;
+  created_at: string;
+  released_at: string;
+  _links: { self: string };
+}
+
+interface GitLabTreeEntry {
+  name: string;
+  path: string;
+  type: "tree" | "blob";
+}
+
+const toIssue = (issue: GitLabIssue): Issue => ({
+  number: issue.iid,
+  title: issue.title,
+  state: issue.state === "opened" ? "open" : "closed",
+  created_at: issue.created_at,
+  updated_at: issue.updated_at,
+  closed_at: issue.closed_at,
+  user: { login: issue.author.username, avatar_url: issue.author.avatar_url },
+  // with_labels_details returns "#rrggbb"; GitHub omits the hash
+  labels: issue.labels.map(label => ({ name: label.name, color: label.color.replace(/^#/, "") })),
+  html_url: issue.web_url,
+});
+
+const toPullRequest = (mr: GitLabMergeRequest): PullRequest => ({
+  number: mr.iid,
+  title: mr.title,
+  state: mr.state === "opened" || mr.state === "locked" ? "open" : "closed",
+  created_at: mr.created_at,
+  updated_at: mr.updated_at,
+  // GitHub closes merged pull requests too
+  closed_at: mr.closed_at || mr.merged_at,
+  merged_at: mr.merged_at,
+  user: { login: mr.author.username, avatar_url: mr.author.avatar_url },
+  html_url: mr.web_url,
+});
+
+// Wrap the onPage and filter callbacks so they receive mapped items
+const mapPagination = <Raw, T>(
+  pagination: PaginationOptions<T>,
+  map: (item: Raw) => T
+): PaginationOptions<Raw> => ({
+  ...pagination,
+  filter: pagination.filter && ((item) => pagination.filter(map(item))),
+  onPage: pagination.onPage && ((items, progress) => pagination.onPage(items.map(map), progress)),
+});
+
+// GitLab.com or a self-managed instance, addressed by its web origin
+export const createGitLabProvider = (origin: string): RepositoryProvider => {
+  const hostId = new URL(origin).host;
+  const apiBaseUrl = `${origin}/api/v4`;
+
+  const request: RequestConfig = {
+    // The token saved for this instance, if any
+    authorize: async () => {
+      const token = await forgeTokenService.getToken(hostId);
+      return { options: token ? { headers: { 'PRIVATE-TOKEN': token } } : {} };
+    }
+  };
+
+  const projectUrl = (path: string) => `${apiBaseUrl}/projects/${encodeURIComponent(path)}`;
+  const cacheKey = (resource: string, path: string, ...rest: (string | number)[]) =>
+    buildCacheKey(`gitlab-${resource}`, hostId, path, ...rest);
+
+  const fetchProject = (path: string, signal?: AbortSignal): Promise<GitLabProject> =>
+    fetchWithCache(`${projectUrl(path)}?license=true`, cacheKey("project", path), { ...request, signal });
+
+  // The X-Total header of a one-item page is the cheapest way to count
+  const fetchOpenMergeRequestCount = (path: string, signal?: AbortSignal): Promise<number> =>
+    fetchWithCache(
+      `${projectUrl(path)}/merge_requests?state=opened&per_page=1`,
+      cacheKey("open-mr-count", path),
+      { ...request, signal, parse: async (response) => parseInt(response.headers.get('X-Total') || '0') }
+    );
+
+  // Languages come back as { name: percentage }
+  const fetchPrimaryLanguage = async (path: string, signal?: AbortSignal): Promise<string> => {
+    const languages: Record<string, number> = await fetchWithCache(
+      `${projectUrl(path)}/languages`,
+      cacheKey("languages", path),
+      { ...request, signal }
+    );
+    const [top] = Object.entries(languages).sort(([, a], [, b]) => b - a);
+    return top ? top[0] : "";
+  };
+
+  // Both commit widgets are computed from the last year of commits, so they share one cached list
+  const fetchRecentCommits = (path: string, signal?: AbortSignal): Promise<GitLabCommit[]> =>
+    fetchPaginated<GitLabCommit>(
+      `${projectUrl(path)}/repository/commits?since=${activitySince()}&with_stats=true&per_page=100`,
+      cacheKey("commits", path),
+      { maxItems: MAX_ACTIVITY_COMMITS },
+      { ...request, signal }
+    );
+
+  const provider: RepositoryProvider = {
+    id: "gitlab",
+    name: "GitLab",
+
+    fetchRepository: async (path, signal) => {
+      const [project, openMergeRequests, language] = await Promise.all([
+        fetchProject(path, signal),
+        fetchOpenMergeRequestCount(path, signal).catch(() => undefined),
+        fetchPrimaryLanguage(path, signal).catch(() => ""),
+      ]);
+      return {
+        id: project.id,
+        name: project.name,
+        full_name: project.path_with_namespace,
+        description: project.description || "",
+        html_url: project.web_url,
+        stargazers_count: project.star_count,
+        watchers_count: project.star_count,
+        forks_count: project.forks_count,
+        // GitHub counts open pull requests as issues too
+        open_issues_count: (project.open_issues_count ?? 0) + (openMergeRequests ?? 0),
+        open_pull_requests_count: openMergeRequests,
+        language,
+        created_at: project.created_at,
+        updated_at: project.last_activity_at,
+        pushed_at: project.last_activity_at,
+        owner: {
+          login: project.namespace.full_path,
+          avatar_url: project.namespace.avatar_url || project.avatar_url || "",
+          html_url: project.namespace.web_url,
+        },
+        license: project.license
+          ? { name: project.license.name, spdx_id: project.license.key.toUpperCase(), url: project.license.html_url }
+          : undefined,
+        topics: project.topics,
+        default_branch: project.default_branch,
+      };
+    },
+
+    // Contributors are commit authors by name; members supply the avatar and profile
+    fetchContributors: async (path, limit = 10, signal) => {
+      const [project, contributors, members] = await Promise.all([
+        fetchProject(path, signal),
+        fetchWithCache(
+          `${projectUrl(path)}/repository/contributors?order_by=commits&sort=desc&per_page=100`,
+          cacheKey("contributors", path),
+          { ...request, signal }
+        ) as Promise<GitLabContributor[]>,
+        (fetchWithCache(
+          `${projectUrl(path)}/members/all?per_page=100`,
+          cacheKey("members", path),
+          { ...request, signal }
+        ) as Promise<GitLabUser[]>).catch((): GitLabUser[] => []),
+      ]);
+
+      // The same author appears once per email address
+      const commitsByName = new Map<string, number>();
+      contributors.forEach(({ name, commits }) => {
+        commitsByName.set(name, (commitsByName.get(name) || 0) + commits);
+      });
+
+      return [...commitsByName.entries()]
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, limit)
+        .map(([name, commits]): Contributor => {
+          const member = members.find(user => user.name === name || user.username === name);
+          return {
+            login: member ? member.username : name,
+            avatar_url: member ? member.avatar_url : "",
+            html_url: member ? member.web_url : `${project.web_url}/-/graphs/${project.default_branch}`,
+            contributions: commits,
+          };
+        });
+    },
+
+    fetchIssues: async (path, pagination = {}, signal) => {
+      const issues = await fetchPaginated<GitLabIssue>(
+        `${projectUrl(path)}/issues?scope=all&order_by=created_at&sort=desc&with_labels_details=true&per_page=100`,
+        cacheKey("issues", path),
+        mapPagination(pagination, toIssue),
+        { ...request, signal }
+      );
+      return issues.map(toIssue);
+    },
+
+    fetchPullRequests: async (path, pagination = {}, signal) => {
+      const mergeRequests = await fetchPaginated<GitLabMergeRequest>(
+        `${projectUrl(path)}/merge_requests?state=all&order_by=created_at&sort=desc&per_page=100`,
+        cacheKey("merge-requests", path),
+        mapPagination(pagination, toPullRequest),
+        { ...request, signal }
+      );
+      return mergeRequests.map(toPullRequest);
+    },
+
+    activityCap: MAX_ACTIVITY_COMMITS,
+
+    // GitLab has no precomputed statistics, so nothing is ever pending
+    fetchCommitActivity: async (path, _onPending, signal) => {
+      const commits = await fetchRecentCommits(path, signal);
+      return bucketByWeek<GitLabCommit, CommitActivity>(
+        commits,
+        commit => commit.authored_date,
+        week => ({ week, days: [0, 0, 0, 0, 0, 0, 0], total: 0 }),
+        (bucket, _commit, date) => {
+          bucket.days[date.getUTCDay()]++;
+          bucket.total++;
+        }
+      );
+    },
+
+    fetchCodeFrequency: async (path, _onPending, signal) => {
+      const commits = await fetchRecentCommits(path, signal);
+      return bucketByWeek<GitLabCommit, CodeFrequency>(
+        commits,
+        commit => commit.authored_date,
+        week => ({ week, additions: 0, deletions: 0 }),
+        (bucket, commit) => {
+          bucket.additions += commit.stats?.additions || 0;
+          // GitHub reports deletions as negative numbers
+          bucket.deletions -= commit.stats?.deletions || 0;
+        }
+      );
+    },
+
+    fetchReleases: async (path, limit = 10, signal) => {
+      const releases: GitLabRelease[] = await fetchWithCache(
+        `${projectUrl(path)}/releases?per_page=${limit}`,
+        cacheKey("releases", path, limit),
+        { ...request, signal }
+      );
+      return releases.map((release, index): Release => ({
+        id: index,
+        tag_name: release.tag_name,
+        name: release.name,
+        created_at: release.created_at,
+        published_at: release.released_at,
+        // GitLab doesn't count asset downloads
+        assets: [],
+        html_url: release._links.self,
+      }));
+    },
+
+    checkDocumentationFiles: async (path, signal) => {
+      const project = await fetchProject(path, signal);
+      return await checkDocsByDirectory(
+        async (directory) => {
+          const entries: GitLabTreeEntry[] = await fetchWithCache(
+            `${projectUrl(path)}/repository/tree?path=${encodeURIComponent(directory)}&per_page=100`,
+            cacheKey("tree", path, directory || "/"),
+            { ...request, signal }
+          );
+          return entries.map(entry => ({
+            path: entry.path,
+            url: `${project.web_url}/-/${entry.type}/${project.default_branch}/${entry.path}`,
+          }));
+        },
+        GITLAB_ALTERNATIVE_PATHS
+      );
+    },
+
+    createFileUrl: (path, branch, filePath) => `${origin}/${path}/-/new/${branch}?file_name=${filePath}`,
+  };
+
+  return provider;
+};
@@ -0,0 +1,134 @@
+import { hostService } from "../hostService";
+import { githubProvider } from "./github";
+import { createGitLabProvider, GITLAB_DOT_COM } from "./gitlab";
+import { createGiteaProvider } from "./gitea";
+import {
+  BITBUCKET_CLOUD,
+  createBitbucketCloudProvider,
+  createBitbucketDataCenterProvider,
+} from "./bitbucket";
+import { RepositoryProvider, ResolvedRepository } from "./types";
+
+export type { RepositoryProvider, ResolvedRepository } from "./types";
+
+const GITHUB_REPO_PATTERN = /^[a-zA-Z0-9_.-]+\/[a-zA-Z0-9_.-]+$/;
+// GitLab projects can sit in nested subgroups
+const GITLAB_PROJECT_PATTERN = /^[a-zA-Z0-9_.-]+(\/[a-zA-Z0-9_.-]+)+$/;
+
+// Gitea/Forgejo instance used for gitea: references and matched by URL; Codeberg by default
+const GITEA_URL = (import.meta.env.VITE_GITEA_URL || "https://codeberg.org").replace(/\/+$/, "");
+const giteaProvider = createGiteaProvider(GITEA_URL);
+
+// Bitbucket Cloud by default. Any other URL is a Data Center instance unless VITE_BITBUCKET_EDITION
+// says "cloud", in which case the 2.0 API is expected under it (e.g. a local stand-in server).
+const BITBUCKET_URL = (import.meta.env.VITE_BITBUCKET_URL || BITBUCKET_CLOUD).replace(/\/+$/, "");
+const BITBUCKET_IS_CLOUD = BITBUCKET_URL === BITBUCKET_CLOUD
+  ? import.meta.env.VITE_BITBUCKET_EDITION !== "datacenter"
+  : import.meta.env.VITE_BITBUCKET_EDITION === "cloud";
+const bitbucketProvider = BITBUCKET_IS_CLOUD
+  ? createBitbucketCloudProvider(
+      BITBUCKET_URL,
+      BITBUCKET_URL === BITBUCKET_CLOUD ? "https://api.bitbucket.org/2.0" : `${BITBUCKET_URL}/2.0`
+    )
+  : createBitbucketDataCenterProvider(BITBUCKET_URL);
+
+// GitLab.com plus an optional self-managed instance; pasted URLs from any other host aren't guessed at
+const GITLAB_URLS = [GITLAB_DOT_COM, import.meta.env.VITE_GITLAB_URL]
+  .filter(Boolean)
+  .map((url: string) => url.replace(/\/+$/, ""));
+
+// Hosts a token can be saved for in the settings panel; each provider only sends a host its own token
+export interface ForgeHost {
+  name: string;
+  host: string;
+  hint: string; // What kind of token the forge expects
+}
+
+export const FORGE_HOSTS: ForgeHost[] = [
+  ...GITLAB_URLS.map((url) => ({ name: "GitLab", host: new URL(url).host, hint: "Personal access token with read_api scope" })),
+  { name: "Gitea/Forgejo", host: new URL(GITEA_URL).host, hint: "Access token with read:repository scope" },
+  {
+    name: "Bitbucket",
+    host: new URL(BITBUCKET_URL).host,
+    hint: BITBUCKET_IS_CLOUD ? "Repository or workspace access token" : "HTTP access token with read permission",
+  },
+];
+
+const gitlabProviders = new Map<string, RepositoryProvider>();
+
+const getGitLabProvider = (origin: string): RepositoryProvider => {
+  if (!gitlabProviders.has(origin)) {
+    gitlabProviders.set(origin, createGitLabProvider(origin));
+  }
+  return gitlabProviders.get(origin);
+};
+
+// Strip a trailing .git and anything after GitLab's /-/ separator, e.g. /-/issues
+const toProjectPath = (pathname: string) =>
+  pathname.split("/-/")[0].replace(/^\/+|\/+$/g, "").replace(/\.git$/, "");
+
+// Resolve what was typed into the search box:
+//   owner/repo                      GitHub repository on the active connection
+//   gitlab:group/subgroup/project   GitLab.com project
+//   gitea:owner/repo                repository on the configured Gitea/Forgejo instance
+//   bitbucket:workspace/repo        repository on the configured Bitbucket (PROJECT/repo on Data Center)
+//   https://github.com/owner/repo   GitHub repository on the active connection
+//   https://<VITE_GITEA_URL>/...    repository on the configured Gitea/Forgejo instance
+//   https://<VITE_BITBUCKET_URL>/...  repository on the configured Bitbucket instance
+//   https://<VITE_GITLAB_URL>/...   project on GitLab.com or the configured self-managed instance
+export const resolveRepository = (ref: string): ResolvedRepository | null => {
+  const value = ref.trim();
+
+  const giteaPrefix = ["gitea:", "forgejo:"].find(prefix => value.startsWith(prefix));
+  if (giteaPrefix) {
+    const fullName = value.slice(giteaPrefix.length).trim();
+    return GITHUB_REPO_PATTERN.test(fullName) ? { provider: giteaProvider, fullName } : null;
+  }
+
+  if (value.startsWith("bitbucket:")) {
+    const fullName = value.slice("bitbucket:".length).trim();
+    return GITHUB_REPO_PATTERN.test(fullName) ? { provider: bitbucketProvider, fullName } : null;
+  }
+
+  if (value.startsWith("gitlab:")) {
+    const path = toProjectPath(value.slice("gitlab:".length));
+    return GITLAB_PROJECT_PATTERN.test(path)
+      ? { provider: getGitLabProvider(GITLAB_DOT_COM), fullName: path }
+      : null;
+  }
+
+  if (/^https?:\/\//.test(value)) {
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      return null;
+    }
+    const path = toProjectPath(url.pathname);
+
+    if (url.host === new URL(hostService.getActiveHost().webBaseUrl).host) {
+      const fullName = path.split("/").slice(0, 2).join("/");
+      return GITHUB_REPO_PATTERN.test(fullName) ? { provider: githubProvider, fullName } : null;
+    }
+    if (url.origin === new URL(GITEA_URL).origin) {
+      const fullName = path.split("/").slice(0, 2).join("/");
+      return GITHUB_REPO_PATTERN.test(fullName) ? { provider: giteaProvider, fullName } : null;
+    }
+    if (url.origin === new URL(BITBUCKET_URL).origin) {
+      // Data Center URLs look like /projects/PROJECT/repos/slug/browse
+      const segments = path.split("/");
+      const fullName = segments[0] === "projects" && segments[2] === "repos"
+        ? `${segments[1]}/${segments[3]}`
+        : segments.slice(0, 2).join("/");
+      return GITHUB_REPO_PATTERN.test(fullName) ? { provider: bitbucketProvider, fullName } : null;
+    }
+    if (GITLAB_URLS.some(gitlabUrl => url.origin === new URL(gitlabUrl).origin)) {
+      return GITLAB_PROJECT_PATTERN.test(path)
+        ? { provider: getGitLabProvider(url.origin), fullName: path }
+        : null;
+    }
+    return null;
+  }
+
+  return GITHUB_REPO_PATTERN.test(value) ? { provider: githubProvider, fullName: value } : null;
+};
@@ -0,0 +1,78 @@
+import { DocCheckResult, documentationFiles } from "../docsService";
+import { NotFoundError } from "../apiErrors";
+
+const WEEK_SECONDS = 7 * 24 * 60 * 60;
+
+// Number of weeks covered by the commit widgets, matching GitHub's /stats endpoints
+export const ACTIVITY_WEEKS = 52;
+
+// Commits loaded for the commit widgets, like the default list cap. Listing stops at the start of the
+// window before this on most repositories; on busier ones the charts say the oldest weeks are incomplete.
+export const MAX_ACTIVITY_COMMITS = 1000;
+
+// Start of the Sunday-based week containing the date, in epoch seconds like GitHub's /stats
+const weekStart = (date: Date) =>
+  Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - date.getUTCDay()) / 1000;
+
+// Midnight UTC at the start of the activity window, stable for a whole day so URLs stay cacheable
+export const activitySince = (): string => {
+  const since = new Date(Date.now() - ACTIVITY_WEEKS * WEEK_SECONDS * 1000);
+  since.setUTCHours(0, 0, 0, 0);
+  return since.toISOString();
+};
+
+// Bucket commits into the last ACTIVITY_WEEKS weeks, oldest first, for forges without /stats
+export const bucketByWeek = <Commit, T>(
+  commits: Commit[],
+  getDate: (commit: Commit) => string,
+  empty: (week: number) => T,
+  add: (bucket: T, commit: Commit, date: Date) => void
+): T[] => {
+  const currentWeek = weekStart(new Date());
+  const last = ACTIVITY_WEEKS - 1;
+  const buckets = Array.from({ length: ACTIVITY_WEEKS }, (_, i) => empty(currentWeek - (last - i) * WEEK_SECONDS));
+  commits.forEach(commit => {
+    const date = new Date(getDate(commit));
+    const index = last - Math.round((currentWeek - weekStart(date)) / WEEK_SECONDS);
+    if (index >= 0 && index < buckets.length) {
+      add(buckets[index], commit, date);
+    }
+  });
+  return buckets;
+};
+
+export interface DirectoryEntry {
+  path: string; // Relative to the repository root
+  url: string; // Web URL of the file or directory
+}
+
+// Check every documentation file with one listing per directory instead of one request per path.
+// extraPaths adds forge-specific locations, keyed by DocFile name.
+export const checkDocsByDirectory = async (
+  listDirectory: (directory: string) => Promise<DirectoryEntry[]>,
+  extraPaths: Record<string, string[]> = {}
+): Promise<DocCheckResult[]> => {
+  const candidates = documentationFiles.map(file => ({
+    file,
+    paths: [file.path, ...(file.alternativePaths || []), ...(extraPaths[file.name] || [])],
+  }));
+  const directories = [...new Set(candidates.flatMap(({ paths }) =>
+    paths.map(path => path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "")
+  ))];
+
+  // A missing directory just means none of its candidates exist; any other failure is passed on
+  const listings = await Promise.all(directories.map(directory =>
+    listDirectory(directory).catch((error): DirectoryEntry[] => {
+      if (error instanceof NotFoundError) {
+        return [];
+      }
+      throw error;
+    })
+  ));
+  const entries = new Map(listings.flat().map(entry => [entry.path, entry]));
+
+  return candidates.map(({ file, paths }): DocCheckResult => {
+    const entry = paths.map(path => entries.get(path)).find(Boolean);
+    return entry ? { file, exists: true, url: entry.url } : { file, exists: false };
+  });
+};
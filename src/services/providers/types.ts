@@ -0,0 +1,55 @@
+import {
+  Repository,
+  Contributor,
+  Issue,
+  PullRequest,
+  CommitActivity,
+  CodeFrequency,
+  Release,
+  PaginationOptions,
+} from "../githubService";
+import { DocCheckResult } from "../docsService";
+import { RepositoryBundle, RepositoryBundleOptions } from "../graphqlService";
+
+// A forge the dashboard can read from. Every method maps the forge's API onto
+// the GitHub-shaped types the widgets already render, and rejects with an ApiError on failure.
+// Requests stop once the optional signal aborts, rejecting with an AbortError instead.
+export interface RepositoryProvider {
+  id: string; // "github", "gitlab", "gitea" or "bitbucket"
+  name: string; // Shown in links such as "View on GitLab"
+  fetchRepository(repoFullName: string, signal?: AbortSignal): Promise<Repository>;
+  fetchContributors(repoFullName: string, limit?: number, signal?: AbortSignal): Promise<Contributor[]>;
+  // Forges that can't provide a widget's data leave its method out and the widget is marked unsupported
+  fetchIssues?(
+    repoFullName: string,
+    pagination?: PaginationOptions<Issue>,
+    signal?: AbortSignal
+  ): Promise<Issue[]>;
+  fetchPullRequests(
+    repoFullName: string,
+    pagination?: PaginationOptions<PullRequest>,
+    signal?: AbortSignal
+  ): Promise<PullRequest[]>;
+  // onPending fires while the forge is still computing statistics
+  fetchCommitActivity?(repoFullName: string, onPending?: () => void, signal?: AbortSignal): Promise<CommitActivity[]>;
+  fetchCodeFrequency?(repoFullName: string, onPending?: () => void, signal?: AbortSignal): Promise<CodeFrequency[]>;
+  // Set by forges that count activity from their commit list, which stops after this many commits
+  activityCap?: number;
+  fetchReleases(repoFullName: string, limit?: number, signal?: AbortSignal): Promise<Release[]>;
+  checkDocumentationFiles(repoFullName: string, signal?: AbortSignal): Promise<DocCheckResult[]>;
+  // Optional single-request replacement for the repository, issue, PR, release and docs calls;
+  // resolves to null when it isn't available for the current connection
+  fetchBundle?(
+    repoFullName: string,
+    options: RepositoryBundleOptions,
+    signal?: AbortSignal
+  ): Promise<RepositoryBundle | null>;
+  // Web URL that starts a new file on the given branch, normally the repository's default_branch
+  createFileUrl(repoFullName: string, branch: string, path: string): string;
+}
+
+// A repository reference resolved to the provider that serves it
+export interface ResolvedRepository {
+  provider: RepositoryProvider;
+  fullName: string; // owner/repo on GitHub, the full project path on GitLab
+}
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const NOW = Date.UTC(2024, 4, 1, 12);
+const MINUTE = 60 * 1000;
+
+// Rate limit headers as GitHub sends them; the reset is in epoch seconds
+const rateLimitHeaders = (resource: string, remaining: number, limit = 5000, reset = NOW + MINUTE) =>
+  new Headers({
+    "X-RateLimit-Resource": resource,
+    "X-RateLimit-Limit": String(limit),
+    "X-RateLimit-Remaining": String(remaining),
+    "X-RateLimit-Used": String(limit - remaining),
+    "X-RateLimit-Reset": String(reset / 1000),
+  });
+
+describe("rateLimitService", () => {
+  // A fresh service with no budgets or queues for every test
+  const loadRateLimitService = async () => (await import("./rateLimitService")).rateLimitService;
+
+  // Record the order acquire() calls settle in, with the error name for rejections
+  const track = (order: string[], name: string, turn: Promise<void>) =>
+    turn.then(
+      () => {
+        order.push(name);
+      },
+      (error) => {
+        order.push(`${name} ${error.name}`);
+      }
+    );
+
+  beforeEach(() => {
+    vi.resetModules();
+    vi.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("lets requests through and reserves budget while plenty is left", async () => {
+    const rateLimitService = await loadRateLimitService();
+    rateLimitService.update(rateLimitHeaders("core", 50));
+
+    await rateLimitService.acquire("core");
+    await rateLimitService.acquire("core");
+    expect(rateLimitService.getBudget("core").remaining).toBe(48);
+  });
+
+  it("defers requests on an exhausted budget until the reset, in order", async () => {
+    const rateLimitService = await loadRateLimitService();
+    rateLimitService.update(rateLimitHeaders("core", 0));
+    const order: string[] = [];
+
+    const first = track(order, "first", rateLimitService.acquire("core"));
+    const second = track(order, "second", rateLimitService.acquire("core"));
+    await vi.advanceTimersByTimeAsync(MINUTE - 1);
+    expect(order).toEqual([]);
+    expect(rateLimitService.getBudget("core").deferredUntil).toBe(NOW + MINUTE);
+
+    await vi.advanceTimersByTimeAsync(1001);
+    await Promise.all([first, second]);
+    expect(order).toEqual(["first", "second"]);
+    // The budget is assumed to have refilled, less the two requests let through
+    expect(rateLimitService.getBudget("core")).toMatchObject({ remaining: 4998, deferredUntil: null });
+  });
+
+  it("keeps a queue per resource", async () => {
+    const rateLimitService = await loadRateLimitService();
+    rateLimitService.update(rateLimitHeaders("search", 0, 30));
+    rateLimitService.update(rateLimitHeaders("core", 5));
+    const order: string[] = [];
+
+    const search = track(order, "search", rateLimitService.acquire("search"));
+    await track(order, "core", rateLimitService.acquire("core"));
+    expect(order).toEqual(["core"]);
+
+    await vi.advanceTimersByTimeAsync(MINUTE + 1000);
+    await search;
+    expect(order).toEqual(["core", "search"]);
+  });
+
+  it("lets aborted callers leave the queue without holding up the rest", async () => {
+    const rateLimitService = await loadRateLimitService();
+    rateLimitService.update(rateLimitHeaders("core", 0));
+    const order: string[] = [];
+    const waiting = new AbortController();
+    const queued = new AbortController();
+
+    const first = track(order, "first", rateLimitService.acquire("core", waiting.signal));
+    const second = track(order, "second", rateLimitService.acquire("core", queued.signal));
+    const third = track(order, "third", rateLimitService.acquire("core"));
+
+    // The queued caller gives up at once, without waiting for the reset ahead of it
+    queued.abort();
+    await second;
+    expect(order).toEqual(["second AbortError"]);
+
+    // The deferred caller gives up its turn, so the rest wait only for the reset
+    waiting.abort();
+    await first;
+    await vi.advanceTimersByTimeAsync(MINUTE + 1000);
+    await third;
+    expect(order).toEqual(["second AbortError", "first AbortError", "third"]);
+  });
+
+  it("turns away a caller that aborted before asking", async () => {
+    const rateLimitService = await loadRateLimitService();
+    const aborted = new AbortController();
+    aborted.abort();
+    await expect(rateLimitService.acquire("core", aborted.signal)).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
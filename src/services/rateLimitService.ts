@@ -0,0 +1,138 @@
+import { toast } from "sonner";
+import { createAbortError } from "./apiErrors";
+
+// Below this many remaining requests, calls are queued in order
+const LOW_BUDGET_THRESHOLD = 10;
+
+export interface RateLimitBudget {
+  resource: string;
+  limit: number;
+  remaining: number;
+  used: number;
+  reset: number; // Epoch milliseconds when the budget refills
+  deferredUntil: number | null; // Set while queued requests wait for the reset
+}
+
+type RateLimitListener = (budgets: Record<string, RateLimitBudget>) => void;
+
+class RateLimitService {
+  private budgets: Record<string, RateLimitBudget> = {};
+  private listeners = new Set<RateLimitListener>();
+  // One queue per resource, so an exhausted search budget doesn't hold up core requests
+  private queues = new Map<string, Promise<void>>();
+
+  // Record the X-RateLimit-* headers of a response
+  update(headers: Headers): void {
+    const remaining = headers.get('X-RateLimit-Remaining');
+    const limit = headers.get('X-RateLimit-Limit');
+    if (remaining === null || limit === null) return;
+
+    const resource = headers.get('X-RateLimit-Resource') || 'core';
+    this.budgets[resource] = {
+      resource,
+      limit: parseInt(limit),
+      remaining: parseInt(remaining),
+      used: parseInt(headers.get('X-RateLimit-Used') || '0'),
+      reset: parseInt(headers.get('X-RateLimit-Reset') || '0') * 1000,
+      deferredUntil: this.budgets[resource]?.deferredUntil ?? null
+    };
+    this.emit();
+  }
+
+  getBudget(resource = 'core'): RateLimitBudget | null {
+    return this.budgets[resource] || null;
+  }
+
+  // Forget a budget, e.g. after switching to a different token
+  clear(resource = 'core'): void {
+    delete this.budgets[resource];
+    this.emit();
+  }
+
+  // Forget every budget, e.g. after switching connections
+  clearAll(): void {
+    this.budgets = {};
+    this.emit();
+  }
+
+  subscribe(listener: RateLimitListener): () => void {
+    this.listeners.add(listener);
+    listener({ ...this.budgets });
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Wait until a request against this resource can be sent. Plenty of budget
+  // passes straight through; a low budget queues requests so reservations
+  // can't race past zero, and an exhausted one defers them until the reset.
+  // Aborting the signal rejects with an AbortError and gives up the turn.
+  async acquire(resource = 'core', signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) throw createAbortError();
+    const budget = this.budgets[resource];
+    if (!budget || budget.remaining > LOW_BUDGET_THRESHOLD) {
+      // Reserve a request so parallel callers don't overshoot before headers arrive
+      if (budget) budget.remaining--;
+      return;
+    }
+
+    const turn = (this.queues.get(resource) ?? Promise.resolve()).then(() => this.waitForBudget(resource, signal));
+    this.queues.set(resource, turn.catch(() => {}));
+    return signal ? this.untilAborted(turn, signal) : turn;
+  }
+
+  // A caller queued behind a deferred request shouldn't wait for that reset once it has given up
+  private untilAborted(turn: Promise<void>, signal: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => reject(createAbortError());
+      signal.addEventListener('abort', onAbort, { once: true });
+      turn.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  private async waitForBudget(resource: string, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) throw createAbortError();
+    const budget = this.budgets[resource];
+    if (!budget) return;
+
+    if (budget.remaining <= 0 && budget.reset > Date.now()) {
+      budget.deferredUntil = budget.reset;
+      this.emit();
+      toast.warning(
+        `GitHub rate limit reached. Remaining requests resume at ${new Date(budget.reset).toLocaleTimeString()}.`
+      );
+
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          clearTimeout(timer);
+          reject(createAbortError());
+        };
+        const timer = setTimeout(() => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }, budget.reset - Date.now() + 1000);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+
+      // update() replaces the budget object, so work on whatever is current after the wait
+      const refreshed = this.budgets[resource];
+      if (!refreshed) return;
+      // Headers from after the reset already describe the new window; otherwise assume a full refill
+      if (refreshed.reset <= Date.now()) {
+        refreshed.remaining = refreshed.limit;
+      }
+      refreshed.deferredUntil = null;
+      this.emit();
+    }
+
+    const current = this.budgets[resource];
+    if (current) current.remaining--;
+  }
+
+  private emit(): void {
+    const snapshot = { ...this.budgets };
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+export const rateLimitService = new RateLimitService();
@@ -0,0 +1,93 @@
+import { isAbortError } from "./apiErrors";
+
+// How the cache took part in answering a request
+export type CacheOutcome =
+  | "hit" // Fresh entry, no network
+  | "miss" // Fetched from the API
+  | "revalidated" // 304 Not Modified for an expired entry
+  | "stale"; // Expired entry served because the API couldn't answer
+
+export interface RequestRecord {
+  id: number;
+  method: "GET" | "POST";
+  url: string;
+  cacheKey: string;
+  startedAt: number;
+  duration: number | null; // Milliseconds; null while running
+  cache: CacheOutcome;
+  status: number | null; // Last HTTP status, or 404 for a cached 404; null if no response was seen
+  attempts: number; // Network attempts, retries included
+  rateLimit: Record<string, string> | null; // Rate-limit headers of the last response
+  error: string | null;
+}
+
+type RequestListener = (records: RequestRecord[]) => void;
+
+const MAX_RECORDS = 500;
+
+// Rate-limit headers differ per forge (X-RateLimit-*, RateLimit-*, Retry-After), so keep any of them
+export const readRateLimitHeaders = (headers: Headers): Record<string, string> | null => {
+  const found: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    if (/ratelimit|retry-after/i.test(name)) {
+      found[name.toLowerCase()] = value;
+    }
+  });
+  return Object.keys(found).length > 0 ? found : null;
+};
+
+// Every API request made through fetchWithCache or the GraphQL client, newest last
+class RequestLog {
+  private records: RequestRecord[] = [];
+  private nextId = 1;
+  private listeners = new Set<RequestListener>();
+
+  // The returned record is filled in by the caller while the request runs
+  start(url: string, cacheKey: string, method: RequestRecord["method"] = "GET"): RequestRecord {
+    return {
+      id: this.nextId++,
+      method,
+      url,
+      cacheKey,
+      startedAt: Date.now(),
+      duration: null,
+      cache: "miss",
+      status: null,
+      attempts: 0,
+      rateLimit: null,
+      error: null,
+    };
+  }
+
+  finish(record: RequestRecord, error?: unknown): void {
+    record.duration = Date.now() - record.startedAt;
+    if (error !== undefined) {
+      record.error = isAbortError(error) ? "Aborted" : error instanceof Error ? error.message : String(error);
+    }
+    this.records = [...this.records.slice(-(MAX_RECORDS - 1)), { ...record }];
+    this.emit();
+  }
+
+  getRecords(): RequestRecord[] {
+    return this.records;
+  }
+
+  clear(): void {
+    this.records = [];
+    this.emit();
+  }
+
+  subscribe(listener: RequestListener): () => void {
+    this.listeners.add(listener);
+    listener(this.records);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(): void {
+    this.listeners.forEach((listener) => listener(this.records));
+  }
+}
+
+export const requestLog = new RequestLog();
@@ -0,0 +1,63 @@
+import { toast } from "sonner";
+import { createLogger } from "./logger";
+
+const log = createLogger("service-worker");
+
+// How often a tab that stays open checks for a new deployment
+const UPDATE_INTERVAL = 60 * 60 * 1000;
+
+// Set once the user asks for the new version; a first install taking control doesn't reload the page
+let updateAccepted = false;
+
+// A new build finished installing and waits for this tab to let go of the old one
+const promptUpdate = (worker: ServiceWorker) => {
+  toast.info("A new version of Gitalytics is available", {
+    id: "app-update",
+    duration: Infinity,
+    action: {
+      label: "Reload",
+      onClick: () => {
+        updateAccepted = true;
+        worker.postMessage({ type: "SKIP_WAITING" });
+      },
+    },
+  });
+};
+
+const watchForUpdates = (registration: ServiceWorkerRegistration) => {
+  if (registration.waiting && navigator.serviceWorker.controller) {
+    promptUpdate(registration.waiting);
+  }
+
+  registration.addEventListener("updatefound", () => {
+    const worker = registration.installing;
+    worker?.addEventListener("statechange", () => {
+      // Without a controller this is the first install, not an update
+      if (worker.state === "installed" && navigator.serviceWorker.controller) {
+        promptUpdate(worker);
+      }
+    });
+  });
+
+  setInterval(() => registration.update().catch(() => undefined), UPDATE_INTERVAL);
+};
+
+// Register the service worker built from src/sw.ts; production builds only, since the dev server
+// serves modules that change on every edit
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+  // The new worker took over after the user accepted the prompt; load the new build
+  navigator.serviceWorker.addEventListener("controllerchange", () => {
+    if (!updateAccepted) return;
+    updateAccepted = false;
+    window.location.reload();
+  });
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register("/sw.js")
+      .then(watchForUpdates)
+      .catch((error) => log.error("Service worker registration failed", error));
+  });
+};
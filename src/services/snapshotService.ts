@@ -0,0 +1,111 @@
+import { CacheEntry, cacheService } from "./cacheService";
+
+// Portable copies of cache entries, to hand a colleague the exact data you were looking at
+// or to analyze repositories without network access
+const SNAPSHOT_FORMAT = "gitalytics-cache-snapshot";
+const SNAPSHOT_VERSION = 1;
+
+export interface CacheSnapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  exportedAt: number;
+  entries: CacheEntry[];
+}
+
+export interface ExportOptions {
+  keys?: string[]; // Everything when left out
+  gzip?: boolean;
+}
+
+// Files start with these bytes when gzipped, whatever their name
+const isGzip = (bytes: Uint8Array) => bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+const compress = (blob: Blob): Promise<Blob> =>
+  new Response(blob.stream().pipeThrough(new CompressionStream("gzip"))).blob();
+
+const decompress = (blob: Blob): Promise<string> =>
+  new Response(blob.stream().pipeThrough(new DecompressionStream("gzip"))).text();
+
+// Only what describes the response travels; access times and import marks are local
+const toPortableEntry = ({ key, data, timestamp, etag, lastModified, ttl }: CacheEntry): CacheEntry => ({
+  key,
+  data,
+  timestamp,
+  ...(etag && { etag }),
+  ...(lastModified && { lastModified }),
+  ...(ttl !== undefined && { ttl }),
+});
+
+const parseSnapshot = (text: string): CacheSnapshot => {
+  let snapshot: CacheSnapshot;
+  try {
+    snapshot = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  if (snapshot?.format !== SNAPSHOT_FORMAT || !Array.isArray(snapshot.entries)) {
+    throw new Error("The file is not a Gitalytics cache snapshot");
+  }
+  if (snapshot.version > SNAPSHOT_VERSION) {
+    throw new Error(`Snapshot version ${snapshot.version} needs a newer version of Gitalytics`);
+  }
+  const invalid = snapshot.entries.some(
+    (entry) => typeof entry?.key !== "string" || typeof entry.timestamp !== "number"
+  );
+  if (invalid) {
+    throw new Error("The snapshot contains invalid entries");
+  }
+  return snapshot;
+};
+
+const buildSnapshot = async (keys?: string[]): Promise<CacheSnapshot> => {
+  const entries = await cacheService.getAllEntries();
+  const wanted = keys ? new Set(keys) : null;
+  return {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    exportedAt: Date.now(),
+    entries: entries.filter((entry) => !wanted || wanted.has(entry.key)).map(toPortableEntry),
+  };
+};
+
+const toBlob = (snapshot: CacheSnapshot, gzip: boolean): Promise<Blob> => {
+  const blob = new Blob([JSON.stringify(snapshot)], { type: "application/json" });
+  return gzip ? compress(blob) : Promise.resolve(blob);
+};
+
+export const exportSnapshot = async ({ keys, gzip = false }: ExportOptions = {}): Promise<Blob> =>
+  toBlob(await buildSnapshot(keys), gzip);
+
+// Export and hand the file to the browser; resolves to the number of entries exported
+export const downloadSnapshot = async ({ keys, gzip = false }: ExportOptions = {}, name = "cache"): Promise<number> => {
+  const snapshot = await buildSnapshot(keys);
+  const url = URL.createObjectURL(await toBlob(snapshot, gzip));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `gitalytics-${name}-${new Date().toISOString().slice(0, 10)}.json${gzip ? ".gz" : ""}`;
+  link.click();
+  // Some browsers start the download after click() returns, so free the blob on the next tick
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+  return snapshot.entries.length;
+};
+
+// Restore a snapshot file, gzipped or not, replacing entries with the same keys. Imported entries keep
+// their original timestamps and never expire, so the dashboard shows exactly the exported data until
+// they are refreshed or deleted. Resolves to the number of entries imported.
+export const importSnapshot = async (file: Blob): Promise<number> => {
+  const header = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  const text = isGzip(header) ? await decompress(file) : await file.text();
+  const snapshot = parseSnapshot(text);
+
+  const importedAt = Date.now();
+  await cacheService.putEntries(
+    snapshot.entries.map((entry) => ({
+      ...toPortableEntry(entry),
+      ttl: null,
+      size: new Blob([JSON.stringify(entry.data)]).size,
+      importedAt,
+    }))
+  );
+  return snapshot.entries.length;
+};
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { IDBFactory } from "fake-indexeddb";
+
+const HOUR = 60 * 60 * 1000;
+
+// Rate limit headers of a response sent with a token that has the given quota left
+const quotaHeaders = (remaining: number, reset: number) =>
+  new Headers({
+    "X-RateLimit-Resource": "core",
+    "X-RateLimit-Limit": "5000",
+    "X-RateLimit-Remaining": String(remaining),
+    "X-RateLimit-Reset": String(reset / 1000),
+  });
+
+describe("tokenService", () => {
+  let now = 0;
+
+  // Fresh modules over the same database, as after a page reload
+  const load = async () => {
+    vi.resetModules();
+    return {
+      tokenService: (await import("./tokenService")).tokenService,
+      rateLimitService: (await import("./rateLimitService")).rateLimitService,
+    };
+  };
+
+  // Add the tokens one after another, so they are tried in this order
+  const addTokens = async (tokenService: Awaited<ReturnType<typeof load>>["tokenService"], ...tokens: string[]) => {
+    for (const token of tokens) {
+      now++;
+      await tokenService.add(token);
+    }
+  };
+
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    now = Date.UTC(2024, 4, 1, 12);
+    vi.spyOn(Date, "now").mockImplementation(() => now);
+    // Validation reads the login from /user; each token belongs to the user it is named after
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init: RequestInit) => {
+        const token = (init.headers as Record<string, string>).Authorization.replace("token ", "");
+        return new Response(JSON.stringify({ login: token }), { status: 200, headers: { "X-OAuth-Scopes": "repo" } });
+      })
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("switches to the next token once one runs out", async () => {
+    const { tokenService, rateLimitService } = await load();
+    await addTokens(tokenService, "first", "second");
+    expect(await tokenService.getActiveToken()).toBe("first");
+
+    tokenService.recordResponse("first", quotaHeaders(0, now + HOUR));
+    expect(await tokenService.getActiveToken()).toBe("second");
+    // The exhausted budget was the first token's, so it doesn't defer requests made with the second
+    expect(rateLimitService.getBudget("core")).toBeNull();
+  });
+
+  it("keeps the budget of a token that still has quota", async () => {
+    const { tokenService, rateLimitService } = await load();
+    await addTokens(tokenService, "first", "second");
+
+    tokenService.recordResponse("first", quotaHeaders(42, now + HOUR));
+    expect(await tokenService.getActiveToken()).toBe("first");
+    expect(rateLimitService.getBudget("core").remaining).toBe(42);
+  });
+
+  it("waits for the token that refills first when every one has run out", async () => {
+    const { tokenService } = await load();
+    await addTokens(tokenService, "first", "second");
+
+    tokenService.recordResponse("first", quotaHeaders(0, now + 2 * HOUR));
+    tokenService.recordResponse("second", quotaHeaders(0, now + HOUR));
+    expect(await tokenService.getActiveToken()).toBe("second");
+
+    // Once its quota has refilled, the first token is used again
+    now += 2 * HOUR;
+    expect(await tokenService.getActiveToken()).toBe("first");
+  });
+
+  it("remembers exhausted tokens across reloads", async () => {
+    const first = await load();
+    await addTokens(first.tokenService, "first", "second");
+    first.tokenService.recordResponse("first", quotaHeaders(0, now + HOUR));
+    // The exhausted mark is saved without being awaited
+    await vi.waitFor(async () => {
+      const { tokenService } = await load();
+      expect(await tokenService.getActiveToken()).toBe("second");
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { toast } from "sonner";
+import { cacheService } from "./cacheService";
+import { TOKEN_STORE } from "./database";
+import { rateLimitService } from "./rateLimitService";
+import { GITHUB_DOT_COM, hostService } from "./hostService";
+import { createLogger } from "./logger";
+
+const log = createLogger("tokens");
+
+// Build-time token, only used when no tokens were added in the settings panel
+const ENV_TOKEN = import.meta.env.VITE_GITHUB_TOKEN;
+
+export interface StoredToken {
+  id: string;
+  label: string;
+  token: string;
+  host?: string; // Connection the token belongs to; github.com when missing
+  login: string;
+  scopes: string[] | null; // null for fine-grained tokens, which don't report scopes
+  addedAt: number;
+  exhaustedUntil: number | null; // Epoch milliseconds when the token's quota refills
+}
+
+type TokenListener = (tokens: StoredToken[]) => void;
+
+class TokenService {
+  private tokens: StoredToken[] = [];
+  private loading: Promise<void> | null = null;
+  private listeners = new Set<TokenListener>();
+
+  constructor() {
+    // Each connection has its own tokens and therefore its own budgets
+    hostService.subscribe(() => {
+      rateLimitService.clearAll();
+      this.emit();
+    });
+  }
+
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readAll().catch(() => []).then((tokens) => {
+        this.tokens = tokens.sort((a, b) => a.addedAt - b.addedAt);
+        this.emit();
+      });
+    }
+    return this.loading;
+  }
+
+  // Tokens for the active connection
+  list(): StoredToken[] {
+    const hostId = hostService.getActiveHost().id;
+    return this.tokens.filter(stored => (stored.host || GITHUB_DOT_COM.id) === hostId);
+  }
+
+  subscribe(listener: TokenListener): () => void {
+    this.listeners.add(listener);
+    listener(this.list());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Pick the first token that still has quota, falling back to the build-time token
+  async getActiveToken(): Promise<string | null> {
+    await this.load();
+
+    const tokens = this.list();
+    if (tokens.length === 0) {
+      // The build-time token only ever belongs to github.com
+      return hostService.getActiveHost().id === GITHUB_DOT_COM.id ? ENV_TOKEN || null : null;
+    }
+
+    const available = this.findAvailable();
+    if (available) {
+      return available.token;
+    }
+
+    // Every token is exhausted: use the one that refills first so the scheduler waits for it
+    return [...tokens].sort((a, b) => (a.exhaustedUntil ?? 0) - (b.exhaustedUntil ?? 0))[0].token;
+  }
+
+  // Check a token against /user of the active connection and read the scopes it grants
+  async validate(token: string): Promise<{ login: string; scopes: string[] | null }> {
+    const response = await fetch(`${hostService.getActiveHost().apiBaseUrl}/user`, {
+      headers: {
+        'Accept': 'application/vnd.github.v3+json',
+        'Authorization': `token ${token}`
+      }
+    });
+
+    if (response.status === 401) {
+      throw new Error("GitHub rejected this token");
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP error! Status: ${response.status}`);
+    }
+
+    const user = await response.json();
+    const scopesHeader = response.headers.get('X-OAuth-Scopes');
+    return {
+      login: user.login,
+      scopes: scopesHeader === null
+        ? null
+        : scopesHeader.split(',').map(scope => scope.trim()).filter(Boolean)
+    };
+  }
+
+  async add(token: string, label = ""): Promise<StoredToken> {
+    await this.load();
+
+    const value = token.trim();
+    if (this.list().some(stored => stored.token === value)) {
+      throw new Error("This token has already been added");
+    }
+
+    const { login, scopes } = await this.validate(value);
+    const stored: StoredToken = {
+      id: crypto.randomUUID(),
+      label: label.trim() || login,
+      token: value,
+      host: hostService.getActiveHost().id,
+      login,
+      scopes,
+      addedAt: Date.now(),
+      exhaustedUntil: null
+    };
+
+    await this.put(stored);
+    this.tokens = [...this.tokens, stored];
+    this.emit();
+    return stored;
+  }
+
+  async remove(id: string): Promise<void> {
+    const db = await cacheService.getDatabase();
+    if (!db) return;
+
+    await new Promise<void>((resolve) => {
+      const transaction = db.transaction([TOKEN_STORE], 'readwrite');
+      const request = transaction.objectStore(TOKEN_STORE).delete(id);
+      request.onsuccess = () => resolve();
+      request.onerror = () => {
+        log.error("Error deleting token", request.error);
+        resolve();
+      };
+    });
+
+    this.tokens = this.tokens.filter(stored => stored.id !== id);
+    this.emit();
+  }
+
+  // Record a response's rate-limit headers and rotate away from tokens that ran out
+  recordResponse(token: string | null, headers: Headers): void {
+    rateLimitService.update(headers);
+
+    if (headers.get('X-RateLimit-Remaining') !== '0') return;
+
+    const exhausted = this.tokens.find(stored => stored.token === token);
+    if (!exhausted) return;
+
+    exhausted.exhaustedUntil = parseInt(headers.get('X-RateLimit-Reset') || '0') * 1000;
+    this.put(exhausted).catch(() => {});
+
+    const next = this.findAvailable();
+    if (next) {
+      // The exhausted budget belonged to the previous token
+      rateLimitService.clear(headers.get('X-RateLimit-Resource') || 'core');
+      toast.info(`Token "${exhausted.label}" is out of quota, switching to "${next.label}"`);
+    }
+    this.emit();
+  }
+
+  private findAvailable(): StoredToken | undefined {
+    const now = Date.now();
+    return this.list().find(stored => !stored.exhaustedUntil || stored.exhaustedUntil <= now);
+  }
+
+  private async readAll(): Promise<StoredToken[]> {
+    const db = await cacheService.getDatabase();
+    if (!db) return [];
+
+    return new Promise((resolve) => {
+      const transaction = db.transaction([TOKEN_STORE], 'readonly');
+      const request = transaction.objectStore(TOKEN_STORE).getAll();
+      request.onsuccess = () => resolve(request.result as StoredToken[]);
+      request.onerror = () => {
+        log.error("Error reading tokens", request.error);
+        resolve([]);
+      };
+    });
+  }
+
+  private async put(token: StoredToken): Promise<void> {
+    const db = await cacheService.getDatabase();
+    if (!db) return;
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([TOKEN_STORE], 'readwrite');
+      const request = transaction.objectStore(TOKEN_STORE).put(token);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private emit(): void {
+    const snapshot = this.list();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+export const tokenService = new TokenService();
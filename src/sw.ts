@@ -0,0 +1,87 @@
+/// <reference lib="webworker" />
+// Service worker: serves the app shell from the precache so Gitalytics loads instantly and offline,
+// and keeps GitHub avatars around. API responses are left to cacheService, which knows how to
+// revalidate them; this worker never touches them.
+declare const self: ServiceWorkerGlobalScope;
+
+// Filled in at build time by the precache plugin in vite.config.ts
+declare const __PRECACHE_MANIFEST__: string[];
+declare const __PRECACHE_VERSION__: string;
+
+const PRECACHE = `gitalytics-precache-${__PRECACHE_VERSION__}`;
+const AVATAR_CACHE = "gitalytics-avatars";
+const AVATAR_HOST = "avatars.githubusercontent.com";
+const MAX_AVATARS = 300;
+
+// Sent by the page when the user accepts the update prompt
+const SKIP_WAITING = "SKIP_WAITING";
+
+self.addEventListener("install", (event) => {
+  // No skipWaiting: a new build waits until the user reloads from the update prompt
+  event.waitUntil(caches.open(PRECACHE).then((cache) => cache.addAll(__PRECACHE_MANIFEST__)));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith("gitalytics-precache-") && key !== PRECACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === SKIP_WAITING) {
+    self.skipWaiting();
+  }
+});
+
+// Drop the oldest avatars past the cap; cache keys come back in insertion order
+const trimAvatars = async (cache: Cache) => {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(keys.length - MAX_AVATARS, 0)).map((key) => cache.delete(key)));
+};
+
+// Avatars rarely change: answer from the cache right away and refresh it in the background
+const serveAvatar = async (event: FetchEvent) => {
+  const cache = await caches.open(AVATAR_CACHE);
+  const cached = await cache.match(event.request);
+  const refresh = fetch(event.request).then(async (response) => {
+    // <img> requests are no-cors, so successful responses may be opaque
+    if (response.ok || response.type === "opaque") {
+      await cache.put(event.request, response.clone());
+      await trimAvatars(cache);
+    }
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  }
+  return refresh;
+};
+
+// Precached files first, so the shell loads without the network; client-side routes all get index.html
+const serveShell = async (request: Request) => {
+  const cache = await caches.open(PRECACHE);
+  const cached = await cache.match(request.mode === "navigate" ? "/" : request);
+  return cached ?? fetch(request);
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.hostname === AVATAR_HOST) {
+    event.respondWith(serveAvatar(event));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(serveShell(request));
+  }
+});
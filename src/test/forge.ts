@@ -0,0 +1,32 @@
+import { vi } from "vitest";
+
+// JSON response with the given extra headers
+export const json = (body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status: 200, headers: { "Content-Type": "application/json", ...headers } });
+
+// A fixture is a response body, or a function of the request URL returning one; undefined answers 404.
+// Return a Response instead of a body when the headers matter.
+export type Fixture = unknown | ((url: URL) => unknown);
+
+// Stand-in for a forge's API: answers every fetch from the fixture registered for its path, with the
+// request URL on the response as the browser sets it. Returns the mock to inspect the requests made.
+export const serveFixtures = (fixtures: Record<string, Fixture>) => {
+  const fetchMock = vi.fn(async (input: string, _init?: RequestInit) => {
+    const url = new URL(input);
+    const fixture = fixtures[url.pathname];
+    const body = typeof fixture === "function" ? fixture(url) : fixture;
+    const response =
+      body instanceof Response
+        ? body
+        : body === undefined
+          ? new Response(JSON.stringify({ message: "Not Found" }), { status: 404 })
+          : json(body);
+    Object.defineProperty(response, "url", { value: input });
+    return response;
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+};
+
+// ISO date the given number of days ago
+export const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
@@ -0,0 +1,2 @@
+// In-memory IndexedDB for the services that persist to it
+import "fake-indexeddb/auto";
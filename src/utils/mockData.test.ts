@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getMockData, MOCK_SCENARIOS } from "./mockData";
+
+const MORNING = Date.UTC(2024, 4, 31, 8);
+const HOUR = 60 * 60 * 1000;
+
+const scenarios = MOCK_SCENARIOS.map(({ id }) => id);
+
+describe("getMockData", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"], now: MORNING });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it.each(scenarios)("gives the same %s data for a seed all day", (scenario) => {
+    const first = getMockData(scenario, 7);
+    vi.setSystemTime(MORNING + 12 * HOUR);
+    expect(getMockData(scenario, 7)).toEqual(first);
+  });
+
+  it.each(scenarios)("gives different %s data for another seed", (scenario) => {
+    const first = getMockData(scenario, 1);
+    const second = getMockData(scenario, 2);
+    expect(second.repository).toEqual(first.repository);
+    expect(second.issues).not.toEqual(first.issues);
+  });
+
+  it("draws each scenario from its own stream for the same seed", () => {
+    const titles = scenarios.map((scenario) => getMockData(scenario, 1).issues.slice(0, 5).map(({ title }) => title));
+    expect(new Set(titles.map((list) => list.join("|"))).size).toBe(scenarios.length);
+  });
+
+  it.each(scenarios)("dates nothing in %s after the last push", (scenario) => {
+    const { repository, issues, pullRequests, releases } = getMockData(scenario);
+    const pushedAt = repository.pushed_at;
+    const closed = [...issues, ...pullRequests].filter((item) => item.closed_at !== null);
+
+    closed.forEach((item) => {
+      expect(item.closed_at >= item.created_at).toBe(true);
+      expect(item.closed_at <= pushedAt).toBe(true);
+    });
+    releases.forEach((release) => expect(release.published_at <= pushedAt).toBe(true));
+    expect(pullRequests.every((pr) => pr.merged_at === null || pr.merged_at === pr.closed_at)).toBe(true);
+  });
+});
@@ -1,206 +1,432 @@
 import { Repository, Contributor, Issue, PullRequest, CommitActivity, CodeFrequency, Release } from "@/services/githubService";
+import { DocCheckResult, documentationFiles } from "@/services/docsService";
 
-// Mock repository data
-export const mockRepository: Repository = {
-  id: 123456789,
-  name: "react",
-  full_name: "facebook/react",
-  html_url: "https://github.com/facebook/react",
-  description: "A declarative, efficient, and flexible JavaScript library for building user interfaces.",
-  created_at: "2013-05-24T16:15:54Z",
-  updated_at: "2023-09-15T10:45:32Z",
-  pushed_at: "2023-09-16T08:23:12Z",
-  stargazers_count: 203487,
-  watchers_count: 203487,
-  forks_count: 41982,
-  open_issues_count: 1256,
-  language: "JavaScript",
-  topics: ["javascript", "ui", "library", "react", "frontend", "declarative"],
-  license: {
-    name: "MIT License",
-    spdx_id: "MIT",
-    url: "https://api.github.com/licenses/mit"
+// Preview data for every dashboard widget. Generation is seeded, so a scenario looks the same on every
+// reload; dates are relative to the start of the current day (UTC) so the data always looks recent.
+
+export type MockScenario = "flagship" | "abandoned" | "monorepo" | "new" | "docs-poor";
+
+export const MOCK_SCENARIOS: { id: MockScenario; label: string; description: string }[] = [
+  { id: "flagship", label: "Healthy flagship", description: "Popular, active and well documented" },
+  { id: "abandoned", label: "Abandoned", description: "No pushes for over a year; issues pile up" },
+  { id: "monorepo", label: "Huge monorepo", description: "Thousands of issues and pull requests" },
+  { id: "new", label: "Brand-new", description: "Created a few weeks ago" },
+  { id: "docs-poor", label: "Poorly documented", description: "Active, but missing most community files" },
+];
+
+export const DEFAULT_MOCK_SCENARIO: MockScenario = "flagship";
+
+export interface MockData {
+  repository: Repository;
+  contributors: Contributor[];
+  issues: Issue[];
+  pullRequests: PullRequest[];
+  commitActivity: CommitActivity[];
+  codeFrequency: CodeFrequency[];
+  releases: Release[];
+  docResults: DocCheckResult[];
+}
+
+// [min, max] for values drawn at random
+type Range = [number, number];
+
+// Everything that sets one scenario apart
+interface ScenarioProfile {
+  owner: string;
+  name: string;
+  description: string;
+  language: string;
+  topics: string[];
+  license: Repository["license"] | null;
+  ageDays: number; // Since the repository was created
+  idleDays: number; // Since the last push; nothing is merged, closed or released after that
+  stars: number;
+  forks: number;
+  openIssues: number; // The repository's count, open pull requests included
+  contributors: number;
+  topContributions: number;
+  issues: number;
+  pullRequests: number;
+  listDays: number; // Issues and pull requests were opened over this many days
+  issueCloseRate: number;
+  resolutionDays: Range;
+  mergeRate: number; // Share of closed pull requests that were merged
+  mergeDays: Range;
+  weeklyCommits: Range;
+  weeklyAdditions: Range;
+  releases: number;
+  releaseEveryDays: number;
+  version: [number, number];
+  docs: string[]; // Paths of the documentation files that exist
+}
+
+const MIT_LICENSE = { name: "MIT License", spdx_id: "MIT", url: "https://api.github.com/licenses/mit" };
+const APACHE_LICENSE = { name: "Apache License 2.0", spdx_id: "Apache-2.0", url: "https://api.github.com/licenses/apache-2.0" };
+
+const ALL_DOCS = documentationFiles.map((file) => file.path);
+
+const PROFILES: Record<MockScenario, ScenarioProfile> = {
+  flagship: {
+    owner: "acme",
+    name: "orbit",
+    description: "A declarative, efficient and flexible library for building user interfaces.",
+    language: "TypeScript",
+    topics: ["typescript", "ui", "library", "frontend", "declarative"],
+    license: MIT_LICENSE,
+    ageDays: 3650,
+    idleDays: 0,
+    stars: 184320,
+    forks: 38214,
+    openIssues: 812,
+    contributors: 40,
+    topContributions: 4800,
+    issues: 300,
+    pullRequests: 200,
+    listDays: 90,
+    issueCloseRate: 0.8,
+    resolutionDays: [0.5, 12],
+    mergeRate: 0.85,
+    mergeDays: [0.2, 5],
+    weeklyCommits: [60, 140],
+    weeklyAdditions: [3000, 12000],
+    releases: 10,
+    releaseEveryDays: 30,
+    version: [18, 3],
+    docs: ALL_DOCS,
+  },
+  abandoned: {
+    owner: "jdoe",
+    name: "tiny-router",
+    description: "A minimal client-side router. No longer maintained.",
+    language: "JavaScript",
+    topics: ["router", "javascript"],
+    license: MIT_LICENSE,
+    ageDays: 2900,
+    idleDays: 540,
+    stars: 2140,
+    forks: 310,
+    openIssues: 97,
+    contributors: 6,
+    topContributions: 420,
+    issues: 60,
+    pullRequests: 30,
+    listDays: 1200,
+    issueCloseRate: 0.5,
+    resolutionDays: [2, 60],
+    mergeRate: 0.5,
+    mergeDays: [1, 30],
+    weeklyCommits: [2, 12],
+    weeklyAdditions: [100, 1500],
+    releases: 6,
+    releaseEveryDays: 120,
+    version: [2, 5],
+    docs: ["README.md", "LICENSE", "CHANGELOG.md"],
+  },
+  monorepo: {
+    owner: "megacorp",
+    name: "platform",
+    description: "All services, libraries and tools of the Megacorp platform in one repository.",
+    language: "Go",
+    topics: ["monorepo", "go", "microservices", "platform", "bazel", "kubernetes"],
+    license: APACHE_LICENSE,
+    ageDays: 2200,
+    idleDays: 0,
+    stars: 48250,
+    forks: 9120,
+    openIssues: 6430,
+    contributors: 100,
+    topContributions: 9200,
+    issues: 1000,
+    pullRequests: 1000,
+    listDays: 30,
+    issueCloseRate: 0.65,
+    resolutionDays: [0.2, 20],
+    mergeRate: 0.9,
+    mergeDays: [0.1, 3],
+    weeklyCommits: [400, 900],
+    weeklyAdditions: [40000, 160000],
+    releases: 10,
+    releaseEveryDays: 7,
+    version: [1, 142],
+    docs: ALL_DOCS.filter((path) => path !== "SUPPORT.md"),
+  },
+  new: {
+    owner: "sam-builds",
+    name: "fresh-start",
+    description: "An experiment that started a few weeks ago.",
+    language: "Rust",
+    topics: ["rust", "cli"],
+    license: MIT_LICENSE,
+    ageDays: 20,
+    idleDays: 1,
+    stars: 37,
+    forks: 4,
+    openIssues: 5,
+    contributors: 2,
+    topContributions: 64,
+    issues: 8,
+    pullRequests: 5,
+    listDays: 18,
+    issueCloseRate: 0.4,
+    resolutionDays: [0.1, 4],
+    mergeRate: 1,
+    mergeDays: [0.05, 1],
+    weeklyCommits: [10, 35],
+    weeklyAdditions: [800, 5000],
+    releases: 1,
+    releaseEveryDays: 7,
+    version: [0, 1],
+    docs: ["README.md", "LICENSE"],
   },
-  owner: {
-    login: "facebook",
-    avatar_url: "https://avatars.githubusercontent.com/u/69631?v=4",
-    html_url: "https://github.com/facebook"
+  "docs-poor": {
+    owner: "fastco",
+    name: "data-pipeline",
+    description: "",
+    language: "Python",
+    topics: [],
+    license: null,
+    ageDays: 900,
+    idleDays: 2,
+    stars: 5400,
+    forks: 610,
+    openIssues: 143,
+    contributors: 18,
+    topContributions: 1300,
+    issues: 150,
+    pullRequests: 120,
+    listDays: 120,
+    issueCloseRate: 0.7,
+    resolutionDays: [1, 25],
+    mergeRate: 0.8,
+    mergeDays: [0.5, 8],
+    weeklyCommits: [20, 70],
+    weeklyAdditions: [1500, 9000],
+    releases: 8,
+    releaseEveryDays: 45,
+    version: [3, 9],
+    docs: ["README.md"],
   },
-  default_branch: "main"
 };
 
-// Mock contributors data
-export const mockContributors: Contributor[] = Array.from({ length: 15 }, (_, i) => ({
-  login: `contributor${i + 1}`,
-  avatar_url: `https://randomuser.me/api/portraits/${i % 2 ? 'men' : 'women'}/${i + 1}.jpg`,
-  html_url: `https://github.com/contributor${i + 1}`,
-  contributions: Math.floor(Math.random() * 1000) + 50
-})).sort((a, b) => b.contributions - a.contributions);
-
-// Mock issues data
-export const mockIssues: Issue[] = Array.from({ length: 30 }, (_, i) => {
-  const isOpen = Math.random() > 0.6;
-  const createdDate = new Date();
-  createdDate.setDate(createdDate.getDate() - Math.floor(Math.random() * 90));
-  
-  const updatedDate = new Date(createdDate);
-  updatedDate.setDate(updatedDate.getDate() + Math.floor(Math.random() * 7) + 1);
-  
-  const closedDate = isOpen ? null : new Date(updatedDate);
-  if (closedDate) {
-    closedDate.setDate(closedDate.getDate() + Math.floor(Math.random() * 7) + 1);
-  }
-  
-  return {
-    id: 200000 + i,
-    node_id: `I_kwDOA${i}`,
-    number: 1000 + i,
-    title: `Issue ${i+1}: ${['Fix', 'Improve', 'Update', 'Add', 'Remove'][Math.floor(Math.random() * 5)]} ${['performance', 'documentation', 'tests', 'feature', 'bug'][Math.floor(Math.random() * 5)]}`,
-    user: {
-      login: `user${Math.floor(Math.random() * 20) + 1}`,
-      avatar_url: `https://randomuser.me/api/portraits/${Math.random() > 0.5 ? 'men' : 'women'}/${(i % 10) + 1}.jpg`,
-      html_url: `https://github.com/user${Math.floor(Math.random() * 20) + 1}`
-    },
-    state: isOpen ? "open" : "closed",
-    created_at: createdDate.toISOString(),
-    updated_at: updatedDate.toISOString(),
-    closed_at: closedDate ? closedDate.toISOString() : null,
-    html_url: `https://github.com/facebook/react/issues/${1000 + i}`,
-    body: "Lorem ipsum dolor sit amet, consectetur adipiscing elit.",
-    labels: Array.from({ length: Math.floor(Math.random() * 3) }, (_, j) => ({
-      name: ['bug', 'documentation', 'enhancement', 'good first issue', 'help wanted'][Math.floor(Math.random() * 5)],
-      color: ['fc2929', '0e8a16', '1d76db', '5319e7', 'fbca04'][Math.floor(Math.random() * 5)]
-    }))
+const DAY = 24 * 60 * 60 * 1000;
+const WEEK = 7 * DAY;
+const WEEKS = 52;
+
+const ISSUE_VERBS = ["Fix", "Improve", "Update", "Add", "Remove"];
+const ISSUE_SUBJECTS = ["performance", "documentation", "tests", "feature", "bug"];
+const PR_VERBS = ["Implement", "Fix", "Refactor", "Optimize", "Add"];
+const PR_SUBJECTS = ["component", "feature", "bug", "performance", "documentation"];
+const LABELS = [
+  { name: "bug", color: "fc2929" },
+  { name: "documentation", color: "0e8a16" },
+  { name: "enhancement", color: "1d76db" },
+  { name: "good first issue", color: "5319e7" },
+  { name: "help wanted", color: "fbca04" },
+];
+
+// mulberry32: small, fast and good enough for preview data
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
   };
-});
-
-// Mock pull requests data
-export const mockPullRequests: PullRequest[] = Array.from({ length: 25 }, (_, i) => {
-  const state = Math.random() > 0.3 ? "closed" : "open";
-  const merged = state === "closed" && Math.random() > 0.2;
-  
-  const createdDate = new Date();
-  createdDate.setDate(createdDate.getDate() - Math.floor(Math.random() * 60));
-  
-  const updatedDate = new Date(createdDate);
-  updatedDate.setDate(updatedDate.getDate() + Math.floor(Math.random() * 5) + 1);
-  
-  let closedDate = null;
-  let mergedDate = null;
-  
-  if (state === "closed") {
-    closedDate = new Date(updatedDate);
-    closedDate.setDate(closedDate.getDate() + Math.floor(Math.random() * 5) + 1);
-    
-    if (merged) {
-      mergedDate = new Date(closedDate);
-    }
-  }
-  
   return {
-    id: 500000 + i,
-    node_id: `PR_kwDOA${i}`,
-    number: 2000 + i,
-    title: `PR ${i+1}: ${['Implement', 'Fix', 'Refactor', 'Optimize', 'Add'][Math.floor(Math.random() * 5)]} ${['component', 'feature', 'bug', 'performance', 'documentation'][Math.floor(Math.random() * 5)]}`,
-    user: {
-      login: `user${Math.floor(Math.random() * 20) + 1}`,
-      avatar_url: `https://randomuser.me/api/portraits/${Math.random() > 0.5 ? 'men' : 'women'}/${(i % 10) + 1}.jpg`,
-      html_url: `https://github.com/user${Math.floor(Math.random() * 20) + 1}`
-    },
-    state,
-    created_at: createdDate.toISOString(),
-    updated_at: updatedDate.toISOString(),
-    closed_at: closedDate ? closedDate.toISOString() : null,
-    merged_at: mergedDate ? mergedDate.toISOString() : null,
-    html_url: `https://github.com/facebook/react/pull/${2000 + i}`
+    next,
+    between: ([min, max]: Range) => min + next() * (max - min),
+    int: ([min, max]: Range) => Math.floor(min + next() * (max - min + 1)),
+    chance: (probability: number) => next() < probability,
+    pick: <T>(items: T[]): T => items[Math.floor(next() * items.length)],
   };
-});
+};
 
-// Mock commit activity data (weekly commits for the last 52 weeks)
-export const mockCommitActivity: CommitActivity[] = Array.from({ length: 52 }, (_, i) => {
-  const date = new Date();
-  date.setDate(date.getDate() - (52 - i) * 7);
-  
-  return {
-    week: Math.floor(date.getTime() / 1000),
-    total: Math.floor(Math.random() * 120) + 10,
-    days: Array.from({ length: 7 }, () => Math.floor(Math.random() * 20))
-  };
-});
+type Random = ReturnType<typeof createRandom>;
+
+// FNV-1a, so each scenario gets its own stream for the same seed
+const hashSeed = (text: string, seed: number) => {
+  let hash = 0x811c9dc5 ^ seed;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+};
 
-// Mock code frequency data (additions/deletions per week)
-export const mockCodeFrequency: CodeFrequency[] = Array.from({ length: 52 }, (_, i) => {
+const startOfToday = () => {
   const date = new Date();
-  date.setDate(date.getDate() - (52 - i) * 7);
-  
+  date.setUTCHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+const iso = (time: number) => new Date(time).toISOString();
+
+const mockUser = (random: Random, count: number) => {
+  const id = random.int([1, Math.max(count, 20)]);
   return {
-    week: Math.floor(date.getTime() / 1000),
-    additions: Math.floor(Math.random() * 10000) + 500,
-    deletions: -1 * (Math.floor(Math.random() * 5000) + 300)
+    login: `user${id}`,
+    avatar_url: `https://randomuser.me/api/portraits/${id % 2 ? "men" : "women"}/${id % 100}.jpg`,
   };
-});
+};
 
-// Mock releases data
-export const mockReleases: Release[] = Array.from({ length: 10 }, (_, i) => {
-  const date = new Date();
-  date.setMonth(date.getMonth() - i);
-  
-  const majorVersion = 18;
-  const minorVersion = 10 - i;
-  
+const buildRepository = (profile: ScenarioProfile, now: number): Repository => {
+  const htmlUrl = `https://github.com/${profile.owner}/${profile.name}`;
+  const pushedAt = now - profile.idleDays * DAY;
   return {
-    id: 700000 + i,
-    tag_name: `v${majorVersion}.${minorVersion}.${Math.floor(Math.random() * 5)}`,
-    name: `React ${majorVersion}.${minorVersion}`,
-    created_at: date.toISOString(),
-    published_at: date.toISOString(),
-    html_url: `https://github.com/facebook/react/releases/tag/v${majorVersion}.${minorVersion}.0`,
-    assets: [] // Adding the required assets property
+    id: hashSeed(`${profile.owner}/${profile.name}`, 0),
+    name: profile.name,
+    full_name: `${profile.owner}/${profile.name}`,
+    description: profile.description,
+    html_url: htmlUrl,
+    stargazers_count: profile.stars,
+    watchers_count: profile.stars,
+    forks_count: profile.forks,
+    open_issues_count: profile.openIssues,
+    language: profile.language,
+    created_at: iso(now - profile.ageDays * DAY),
+    updated_at: iso(pushedAt),
+    pushed_at: iso(pushedAt),
+    owner: {
+      login: profile.owner,
+      avatar_url: `https://randomuser.me/api/portraits/lego/${hashSeed(profile.owner, 0) % 10}.jpg`,
+      html_url: `https://github.com/${profile.owner}`,
+    },
+    ...(profile.license && { license: profile.license }),
+    topics: profile.topics,
+    default_branch: "main",
   };
-});
+};
 
-// Add mock documentation results type to the interface
-export interface MockData {
-  repository: Repository;
-  contributors: Contributor[];
-  issues: Issue[];
-  pullRequests: PullRequest[];
-  commitActivity: CommitActivity[];
-  codeFrequency: CodeFrequency[];
-  releases: Release[];
-  docResults?: {
-    file: {
-      name: string;
-      description: string;
-      importance: "critical" | "recommended" | "optional";
-      path: string;
+// A long tail: a few people make most of the contributions
+const buildContributors = (profile: ScenarioProfile, random: Random): Contributor[] =>
+  Array.from({ length: profile.contributors }, (_, i) => ({
+    login: `contributor${i + 1}`,
+    avatar_url: `https://randomuser.me/api/portraits/${i % 2 ? "men" : "women"}/${(i % 99) + 1}.jpg`,
+    html_url: `https://github.com/contributor${i + 1}`,
+    contributions: Math.max(1, Math.round((profile.topContributions / Math.pow(i + 1, 0.9)) * random.between([0.8, 1.2]))),
+  })).sort((a, b) => b.contributions - a.contributions);
+
+// Opened over the profile's window, newest first like the API. Nothing is closed after the last push,
+// so an abandoned repository keeps collecting open items.
+const openedTimes = (count: number, profile: ScenarioProfile, random: Random, now: number) => {
+  const start = now - Math.min(profile.listDays, profile.ageDays) * DAY;
+  return Array.from({ length: count }, () => start + random.next() * (now - start)).sort((a, b) => b - a);
+};
+
+const buildIssues = (profile: ScenarioProfile, random: Random, now: number, repoUrl: string): Issue[] => {
+  const activeUntil = now - profile.idleDays * DAY;
+  return openedTimes(profile.issues, profile, random, now).map((createdAt, i) => {
+    const closeAt = createdAt + random.between(profile.resolutionDays) * DAY;
+    const closed = random.chance(profile.issueCloseRate) && closeAt <= Math.min(now, activeUntil);
+    const number = profile.issues + profile.pullRequests - i;
+    const labelCount = random.int([0, 2]);
+    return {
+      number,
+      title: `${random.pick(ISSUE_VERBS)} ${random.pick(ISSUE_SUBJECTS)}`,
+      state: closed ? "closed" : "open",
+      created_at: iso(createdAt),
+      updated_at: iso(closed ? closeAt : createdAt),
+      closed_at: closed ? iso(closeAt) : null,
+      user: mockUser(random, profile.contributors * 3),
+      labels: Array.from({ length: labelCount }, () => random.pick(LABELS)),
+      html_url: `${repoUrl}/issues/${number}`,
     };
-    exists: boolean;
-    url?: string;
-  }[];
-}
+  });
+};
+
+const buildPullRequests = (profile: ScenarioProfile, random: Random, now: number, repoUrl: string): PullRequest[] => {
+  const activeUntil = now - profile.idleDays * DAY;
+  return openedTimes(profile.pullRequests, profile, random, now).map((createdAt, i) => {
+    const closeAt = createdAt + random.between(profile.mergeDays) * DAY;
+    const closed = closeAt <= Math.min(now, activeUntil) && random.chance(0.9);
+    const merged = closed && random.chance(profile.mergeRate);
+    const number = profile.pullRequests - i;
+    return {
+      number,
+      title: `${random.pick(PR_VERBS)} ${random.pick(PR_SUBJECTS)}`,
+      state: closed ? "closed" : "open",
+      created_at: iso(createdAt),
+      updated_at: iso(closed ? closeAt : createdAt),
+      closed_at: closed ? iso(closeAt) : null,
+      merged_at: merged ? iso(closeAt) : null,
+      user: mockUser(random, profile.contributors),
+      html_url: `${repoUrl}/pull/${number}`,
+    };
+  });
+};
+
+// Weeks the repository was being worked on; quiet before it existed and after the last push
+const activeWeek = (profile: ScenarioProfile, weekStart: number, now: number) =>
+  weekStart + WEEK > now - profile.ageDays * DAY && weekStart <= now - profile.idleDays * DAY;
+
+const weekStarts = (now: number) => Array.from({ length: WEEKS }, (_, i) => now - (WEEKS - i) * WEEK);
+
+const buildCommitActivity = (profile: ScenarioProfile, random: Random, now: number): CommitActivity[] =>
+  weekStarts(now).map((weekStart) => {
+    const total = activeWeek(profile, weekStart, now) ? random.int(profile.weeklyCommits) : 0;
+    // Spread over the week, weekdays busier than weekends
+    const weights = [0.3, 1, 1, 1, 1, 0.9, 0.3].map((weight) => weight * random.between([0.5, 1.5]));
+    const sum = weights.reduce((total, weight) => total + weight, 0);
+    const days = weights.map((weight) => Math.floor((total * weight) / sum));
+    days[3] += total - days.reduce((count, day) => count + day, 0);
+    return { week: Math.floor(weekStart / 1000), total, days };
+  });
+
+const buildCodeFrequency = (profile: ScenarioProfile, random: Random, now: number): CodeFrequency[] =>
+  weekStarts(now).map((weekStart) => {
+    const active = activeWeek(profile, weekStart, now);
+    const additions = active ? random.int(profile.weeklyAdditions) : 0;
+    return {
+      week: Math.floor(weekStart / 1000),
+      additions,
+      deletions: -Math.round(additions * random.between([0.2, 0.7])),
+    };
+  });
+
+const buildReleases = (profile: ScenarioProfile, random: Random, now: number, repoUrl: string): Release[] => {
+  const [major, minor] = profile.version;
+  const created = now - profile.ageDays * DAY;
+  const latest = now - profile.idleDays * DAY - random.int([0, 3]) * DAY;
+  return Array.from({ length: profile.releases }, (_, i) => latest - i * profile.releaseEveryDays * DAY)
+    .filter((time) => time >= created)
+    .map((time, i) => {
+      const tag = `v${major}.${Math.max(minor - i, 0)}.${random.int([0, 4])}`;
+      return {
+        id: 700000 + i,
+        tag_name: tag,
+        name: `${profile.name} ${tag.slice(1)}`,
+        created_at: iso(time),
+        published_at: iso(time),
+        assets: Array.from({ length: random.int([0, 3]) }, () => ({
+          download_count: Math.round(profile.stars * random.between([0.01, 0.5])),
+        })),
+        html_url: `${repoUrl}/releases/tag/${tag}`,
+      };
+    });
+};
+
+const buildDocResults = (profile: ScenarioProfile, repoUrl: string): DocCheckResult[] =>
+  documentationFiles.map((file) => {
+    const exists = profile.docs.includes(file.path);
+    return { file, exists, ...(exists && { url: `${repoUrl}/blob/main/${file.path}` }) };
+  });
+
+// The same scenario and seed always give the same data for the day
+export const getMockData = (scenario: MockScenario = DEFAULT_MOCK_SCENARIO, seed = 1): MockData => {
+  const profile = PROFILES[scenario];
+  const random = createRandom(hashSeed(scenario, seed));
+  const now = startOfToday();
+  const repository = buildRepository(profile, now);
 
-export const getMockData = (): MockData => {
   return {
-    repository: mockRepository,
-    contributors: mockContributors,
-    issues: mockIssues,
-    pullRequests: mockPullRequests,
-    commitActivity: mockCommitActivity,
-    codeFrequency: mockCodeFrequency,
-    releases: mockReleases,
-    // Mock documentation results
-    docResults: [
-      { file: { name: "README", description: "Project overview", importance: "critical", path: "README.md" }, exists: true, url: "https://github.com/facebook/react/blob/main/README.md" },
-      { file: { name: "License", description: "License terms", importance: "critical", path: "LICENSE" }, exists: true, url: "https://github.com/facebook/react/blob/main/LICENSE" },
-      { file: { name: "Contributing Guide", description: "Instructions for contributors", importance: "recommended", path: "CONTRIBUTING.md" }, exists: true, url: "https://github.com/facebook/react/blob/main/CONTRIBUTING.md" },
-      { file: { name: "Code of Conduct", description: "Expected behavior", importance: "recommended", path: "CODE_OF_CONDUCT.md" }, exists: true, url: "https://github.com/facebook/react/blob/main/CODE_OF_CONDUCT.md" },
-      { file: { name: "Issue Templates", description: "Templates for issues", importance: "recommended", path: ".github/ISSUE_TEMPLATE" }, exists: true, url: "https://github.com/facebook/react/blob/main/.github/ISSUE_TEMPLATE" },
-      { file: { name: "Pull Request Template", description: "Template for PRs", importance: "recommended", path: ".github/PULL_REQUEST_TEMPLATE.md" }, exists: true, url: "https://github.com/facebook/react/blob/main/.github/PULL_REQUEST_TEMPLATE.md" },
-      { file: { name: "Security Policy", description: "Security reporting", importance: "recommended", path: "SECURITY.md" }, exists: false },
-      { file: { name: "Changelog", description: "History of changes", importance: "optional", path: "CHANGELOG.md" }, exists: true, url: "https://github.com/facebook/react/blob/main/CHANGELOG.md" },
-      { file: { name: "Support", description: "How to get support", importance: "optional", path: "SUPPORT.md" }, exists: false },
-      { file: { name: "Governance", description: "Project governance", importance: "optional", path: "GOVERNANCE.md" }, exists: false }
-    ]
+    repository,
+    contributors: buildContributors(profile, random),
+    issues: buildIssues(profile, random, now, repository.html_url),
+    pullRequests: buildPullRequests(profile, random, now, repository.html_url),
+    commitActivity: buildCommitActivity(profile, random, now),
+    codeFrequency: buildCodeFrequency(profile, random, now),
+    releases: buildReleases(profile, random, now, repository.html_url),
+    docResults: buildDocResults(profile, repository.html_url),
   };
 };
@@ -1,8 +1,43 @@
-import { defineConfig } from "vite";
+/// <reference types="vitest" />
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import { createHash } from "crypto";
 import { componentTagger } from "lovable-tagger";
 
+const SERVICE_WORKER = "sw.js";
+
+// Hands the service worker the list of files to precache. Every build changes the list, since file
+// names carry content hashes, so browsers see a new worker and the app prompts for the update.
+const precacheManifest = (): Plugin => {
+  let base = "/";
+  return {
+    name: "gitalytics-precache-manifest",
+    apply: "build",
+    enforce: "post",
+    configResolved(config) {
+      base = config.base;
+    },
+    generateBundle(_, bundle) {
+      const worker = bundle[SERVICE_WORKER];
+      if (!worker || worker.type !== "chunk") return;
+
+      const files = Object.keys(bundle).filter(
+        (file) => file !== SERVICE_WORKER && file !== "index.html" && !file.endsWith(".map")
+      );
+      // The shell is cached under the base URL; public files aren't part of the bundle
+      const urls = [base, ...files, "manifest.webmanifest", "favicon.ico"].map((url) =>
+        url === base ? url : `${base}${url}`
+      );
+      const version = createHash("sha256").update(urls.join("\n")).digest("hex").slice(0, 12);
+
+      worker.code = worker.code
+        .replace(/__PRECACHE_MANIFEST__/g, JSON.stringify(urls))
+        .replace(/__PRECACHE_VERSION__/g, JSON.stringify(version));
+    },
+  };
+};
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -13,10 +48,27 @@ export default defineConfig(({ mode }) => ({
     react(),
     mode === 'development' &&
     componentTagger(),
+    precacheManifest(),
   ].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  build: {
+    rollupOptions: {
+      input: {
+        index: path.resolve(__dirname, "index.html"),
+        sw: path.resolve(__dirname, "src/sw.ts"),
+      },
+      output: {
+        // The worker's scope is the folder it is served from, so it lives at the root under a fixed name
+        entryFileNames: (chunk) => (chunk.name === "sw" ? SERVICE_WORKER : "assets/[name]-[hash].js"),
+      },
+    },
+  },
+  test: {
+    environment: "happy-dom",
+    setupFiles: ["./src/test/setup.ts"],
+  },
 }));